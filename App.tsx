@@ -1,49 +1,470 @@
-import React, { useState, useEffect } from 'react';
-import { AspectRatio } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { 
+  AudioSettings,
+  EditDecision,
+  EffectSettings,
+  InterviewerVoiceMode, 
+  LibraryTake, 
+  PostProductionMetadata,
+  PromptMode,
+  QualityPresetId,
+  QuestionCue, 
+  RecorderCommand,
+  RecordingFormatId, 
+  RecordingResult, 
+  RecordingSession, 
+  ShortcutAction,
+  ShortcutSettings,
+  SOCIAL_CAPTION_TARGETS,
+  TeleprompterScript,
+  TranscriptEntry 
+} from './types';
 import { Recorder } from './components/Recorder';
 import { AspectRatioSelector } from './components/AspectRatioSelector';
+import { FormatSelector } from './components/FormatSelector';
+import { RecoveryBanner } from './components/RecoveryBanner';
+import { Library } from './components/Library';
+import { PersonaPicker } from './components/PersonaPicker';
+import { VoiceModeSelector } from './components/VoiceModeSelector';
+import { TranscriptPanel } from './components/TranscriptPanel';
+import { PostProductionPanel } from './components/PostProductionPanel';
+import { PreviewSidebar } from './components/PreviewSidebar';
+import { TrimEditor } from './components/TrimEditor';
+import { DevicePicker } from './components/DevicePicker';
+import { QualitySelector } from './components/QualitySelector';
+import { EffectsPanel } from './components/EffectsPanel';
+import { BrandKitPicker } from './components/BrandKitPicker';
+import { AudioPanel } from './components/AudioPanel';
+import { ShortcutsEditor } from './components/ShortcutsEditor';
+import { PromptModeSelector } from './components/PromptModeSelector';
+import { ShootBar } from './components/ShootBar';
+import { TakeComparison } from './components/TakeComparison';
+import { useActiveTimer } from './hooks/useActiveTimer';
+import { usePersonas } from './hooks/usePersonas';
+import { useMediaDevices } from './hooks/useMediaDevices';
+import { useAspectRatios } from './hooks/useAspectRatios';
+import { useBrandKits } from './hooks/useBrandKits';
+import { useShoot } from './hooks/useShoot';
+import { useAudioChain } from './hooks/useAudioChain';
+import { downloadBlob, downloadText, downloadUrl } from './utils/download';
+import { toSRT, toWebVTT } from './utils/captions';
+import { transcriptToJSON, transcriptToMarkdown, transcriptToPlainText } from './utils/transcript';
+import { getFormat } from './utils/mediaFormats';
+import { formatDuration, toFileName } from './utils/format';
+import { deleteSession, listSessions, rebuildSession } from './services/recordingSessions';
+import { deleteTake, getTakeMedia, saveTake, updateTake } from './services/library';
+import { buildMetadataExport, generatePostProduction } from './services/postProduction';
+import { renderEdit } from './services/renderEdit';
+import { loadEffectSettings, saveEffectSettings } from './services/effects';
+import { loadScript, saveScript } from './services/script';
+import { loadAudioSettings, saveAudioSettings } from './services/audioSettings';
+import { loadShortcutSettings, saveShortcutSettings } from './services/shortcuts';
+import { createEditDecision, getKeptRanges, remapQuestionCues, remapTranscript } from './utils/editDecision';
+import { extensionForMimeType } from './utils/mediaFormats';
+import { nearestAspectRatio } from './utils/aspectRatio';
+import { formatShortcut, matchShortcutEvent } from './utils/shortcuts';
 
 function App() {
-  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(AspectRatio.PORTRAIT_9_16);
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [countdown, setCountdown] = useState<number | null>(null);
   const [recordedUrl, setRecordedUrl] = useState<string | null>(null);
+  const [takeName, setTakeName] = useState('');
+  const [preferredFormat, setPreferredFormat] = useState<RecordingFormatId>(RecordingFormatId.MP4_H264);
+  const [quality, setQuality] = useState<QualityPresetId>(QualityPresetId.FULL_HD_1080);
+  const [effects, setEffects] = useState<EffectSettings>(loadEffectSettings);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
+  const [shortcuts, setShortcuts] = useState<ShortcutSettings>(loadShortcutSettings);
+  const [isEditingShortcuts, setIsEditingShortcuts] = useState(false);
+  const [recorderCommand, setRecorderCommand] = useState<RecorderCommand | null>(null);
+  const [isFinishingTake, setIsFinishingTake] = useState(false);
+  const [promptMode, setPromptMode] = useState<PromptMode>(PromptMode.INTERVIEWER);
+  const [script, setScript] = useState<TeleprompterScript>(loadScript);
+  const [recordedExtension, setRecordedExtension] = useState('mp4');
+  const [fallbackNotice, setFallbackNotice] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [recoverableSessions, setRecoverableSessions] = useState<RecordingSession[]>([]);
+  const [recoveringSessionId, setRecoveringSessionId] = useState<string | null>(null);
+  const [questionCues, setQuestionCues] = useState<QuestionCue[]>([]);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const previewVideoRef = useRef<HTMLVideoElement>(null);
   const [error, setError] = useState<string | null>(null);
-  const [hasStream, setHasStream] = useState(false);
+  const [previewStream, setPreviewStream] = useState<MediaStream | null>(null);
+  const [burnInQuestions, setBurnInQuestions] = useState(false);
+  const [voiceMode, setVoiceMode] = useState<InterviewerVoiceMode>(InterviewerVoiceMode.SILENT);
+  const [view, setView] = useState<'studio' | 'library'>('studio');
+  const [currentTake, setCurrentTake] = useState<LibraryTake | null>(null);
+  const [postMetadata, setPostMetadata] = useState<PostProductionMetadata | null>(null);
+  const [isGeneratingMetadata, setIsGeneratingMetadata] = useState(false);
+  const [editDecision, setEditDecision] = useState<EditDecision | null>(null);
+  const [isRenderingEdit, setIsRenderingEdit] = useState(false);
+  const [renderProgress, setRenderProgress] = useState(0);
+  const [isComparing, setIsComparing] = useState(false);
+  const elapsedMs = useActiveTimer(isRecording, isPaused);
+  const { personas, selectedPersona, selectPersona, savePersona, deletePersona } = usePersonas();
+  const { cameras, microphones, settings: deviceSettings, updateSettings: updateDeviceSettings } = useMediaDevices(previewStream);
+  const hasStream = !!previewStream;
+  const audioChain = useAudioChain(previewStream, audioSettings);
+  const { frame, customRatios, selectAspectRatio, selectNextAspectRatio, addCustomRatio, deleteCustomRatio } = useAspectRatios();
+  const { brandKits, activeBrandKit, selectBrandKit, saveBrandKit, deleteBrandKit } = useBrandKits(setError);
+  const shoot = useShoot(setError);
+
+  useEffect(() => {
+    saveEffectSettings(effects);
+  }, [effects]);
+
+  useEffect(() => {
+    saveScript(script);
+  }, [script]);
+
+  useEffect(() => {
+    saveAudioSettings(audioSettings);
+  }, [audioSettings]);
+
+  useEffect(() => {
+    saveShortcutSettings(shortcuts);
+  }, [shortcuts]);
+
+  // Anything still in the session store on load was never downloaded or discarded
+  useEffect(() => {
+    listSessions()
+      .then(setRecoverableSessions)
+      .catch(err => console.error("Failed to look for unsaved recordings:", err));
+  }, []);
+
+  const forgetSession = (id: string) => {
+    deleteSession(id).catch(err => console.error("Failed to delete recording session:", err));
+    setRecoverableSessions(prev => prev.filter(s => s.id !== id));
+  };
+
+  const handleRecoverSession = async (session: RecordingSession) => {
+    setRecoveringSessionId(session.id);
+    try {
+      const blob = await rebuildSession(session);
+      downloadBlob(blob, `musecam-${new Date(session.startedAt).toISOString()}.${session.extension}`);
+      forgetSession(session.id);
+    } catch (err) {
+      console.error(err);
+      setError("Could not rebuild the unsaved recording.");
+    } finally {
+      setRecoveringSessionId(null);
+    }
+  };
+
+  const handleRecordingComplete = async (result: RecordingResult) => {
+    const url = URL.createObjectURL(result.blob);
+    const take: LibraryTake = {
+      id: result.sessionId,
+      name: `Take ${shoot.nextTakeNumber} · ${new Date().toLocaleString()}`,
+      createdAt: Date.now(),
+      durationMs: result.durationMs,
+      aspectRatio: frame.label,
+      mimeType: result.mimeType,
+      extension: result.extension,
+      byteSize: result.blob.size,
+      poster: result.poster,
+      questionCues: result.questionCues,
+      transcript: result.transcript,
+      shootId: shoot.shootId,
+      takeNumber: shoot.nextTakeNumber,
+    };
 
-  const handleRecordingComplete = (blob: Blob) => {
-    const url = URL.createObjectURL(blob);
     setRecordedUrl(url);
+    setTakeName(take.name);
+    setRecordedExtension(result.extension);
+    setSessionId(result.sessionId);
+    setCurrentTake(take);
+    setPostMetadata(null);
+    setQuestionCues(result.questionCues);
+    setTranscript(result.transcript);
+    setFallbackNotice(result.fallbackFrom 
+      ? `${getFormat(result.fallbackFrom).label} isn't supported in this browser, recorded as ${result.extension.toUpperCase()} instead.`
+      : null);
+
+    // Once the take is in the library its crash-recovery chunks are redundant
+    try {
+      await saveTake(take, result.blob);
+      shoot.addTake(take);
+      forgetSession(result.sessionId);
+      setSessionId(null);
+    } catch (err) {
+      console.error(err);
+      setError("Could not save this take to the library. Download it before leaving.");
+    }
+  };
+
+  // Puts a take that is already in the library into the preview
+  const showTake = (take: LibraryTake, media: Blob) => {
+    setRecordedUrl(URL.createObjectURL(media));
+    setTakeName(take.name);
+    setRecordedExtension(take.extension);
+    setSessionId(null);
+    setCurrentTake(take);
+    setPostMetadata(take.metadata ?? null);
+    setQuestionCues(take.questionCues);
+    setTranscript(take.transcript ?? []);
+    setFallbackNotice(null);
+    setEditDecision(null);
+    setView('studio');
+  };
+
+  const handleOpenTake = async (take: LibraryTake) => {
+    try {
+      showTake(take, await getTakeMedia(take.id));
+    } catch (err) {
+      console.error(err);
+      setError("Could not open this take.");
+    }
   };
 
+  const handleTakeDeleted = (id: string) => {
+    shoot.removeTake(id);
+    if (id === currentTake?.id) closePreview();
+  };
+
+  const handleGenerateMetadata = async () => {
+    if (!currentTake) return;
+    setIsGeneratingMetadata(true);
+    try {
+      const metadata = await generatePostProduction({
+        aspectRatio: currentTake.aspectRatio,
+        durationMs: currentTake.durationMs,
+        questionCues,
+        transcript,
+      });
+      setPostMetadata(metadata);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Could not generate metadata.");
+    } finally {
+      setIsGeneratingMetadata(false);
+    }
+  };
+
+  // Keep edits with the take in the library, debounced so typing doesn't write every key
+  useEffect(() => {
+    if (!currentTake || !postMetadata) return;
+    const timeout = setTimeout(() => {
+      updateTake(currentTake.id, { metadata: postMetadata })
+        .catch(err => console.error("Failed to save metadata:", err));
+    }, 800);
+    return () => clearTimeout(timeout);
+  }, [currentTake, postMetadata]);
+
+  const handleExportMetadata = () => {
+    if (!currentTake || !postMetadata) return;
+    const base = toFileName(takeName);
+    const json = buildMetadataExport(
+      postMetadata, 
+      `${base}.${recordedExtension}`, 
+      currentTake.aspectRatio, 
+      currentTake.durationMs
+    );
+    downloadText(json, `${base}-metadata.json`, 'application/json');
+  };
+
+  // Caption track for the preview player
+  const captionsUrl = useMemo(() => {
+    if (questionCues.length === 0) return null;
+    return URL.createObjectURL(new Blob([toWebVTT(questionCues)], { type: 'text/vtt' }));
+  }, [questionCues]);
+
+  useEffect(() => {
+    return () => {
+      if (captionsUrl) URL.revokeObjectURL(captionsUrl);
+    };
+  }, [captionsUrl]);
+
+  // Each preview gets its own object URL, let go of the old take's when it's replaced or closed
+  useEffect(() => {
+    return () => {
+      if (recordedUrl) URL.revokeObjectURL(recordedUrl);
+    };
+  }, [recordedUrl]);
+
+  const startRecording = () => {
+    setRecordedUrl(null); // Clear previous recording
+    setIsRecording(true);
+  };
+
+  // The Recorder draws the countdown on the canvas, the recorder itself only starts after it
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown <= 0) {
+      setCountdown(null);
+      startRecording();
+      return;
+    }
+    const timeout = setTimeout(() => setCountdown(prev => prev === null ? null : prev - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [countdown]);
+
   const handleToggleRecord = () => {
     if (isRecording) {
       setIsRecording(false);
+      setIsPaused(false);
+    } else if (countdown !== null) {
+      setCountdown(null); // Pressed again during the countdown, call it off
+    } else if (shoot.settings.countdownSec > 0) {
+      setCountdown(shoot.settings.countdownSec);
     } else {
-      setRecordedUrl(null); // Clear previous recording
-      setIsRecording(true);
+      startRecording();
+    }
+  };
+
+  // The Recorder has already reported why
+  const handleRecordingFailed = () => {
+    setIsRecording(false);
+    setIsPaused(false);
+  };
+
+  // Same rules as the buttons: nothing fires that the UI wouldn't allow right now
+  const runShortcut = (action: ShortcutAction) => {
+    const isInStudio = view === 'studio' && !recordedUrl;
+    switch (action) {
+      case ShortcutAction.TOGGLE_RECORD:
+        if (isInStudio && hasStream && !isFinishingTake) handleToggleRecord();
+        break;
+      case ShortcutAction.TOGGLE_PAUSE:
+        if (isRecording) setIsPaused(prev => !prev);
+        break;
+      case ShortcutAction.DISMISS_QUESTION:
+      case ShortcutAction.NEXT_PROMPT:
+        if (isInStudio) setRecorderCommand(prev => ({ action, id: (prev?.id ?? 0) + 1 }));
+        break;
+      case ShortcutAction.NEXT_RATIO:
+        if (isInStudio && !isRecording && !isFinishingTake && countdown === null) selectNextAspectRatio();
+        break;
     }
   };
 
+  // The listener stays put, it calls whatever runShortcut is current
+  const runShortcutRef = useRef(runShortcut);
+  runShortcutRef.current = runShortcut;
+
+  useEffect(() => {
+    if (isEditingShortcuts) return;
+    const handleKey = (e: KeyboardEvent) => {
+      const action = matchShortcutEvent(shortcuts, e);
+      if (!action) return;
+      e.preventDefault();
+      runShortcutRef.current(action);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [shortcuts, isEditingShortcuts]);
+
   const handleDownload = () => {
     if (recordedUrl) {
-      const a = document.createElement('a');
-      a.href = recordedUrl;
-      a.download = `musecam-${new Date().toISOString()}.mp4`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
+      downloadUrl(recordedUrl, `${toFileName(takeName)}.${recordedExtension}`);
+      if (sessionId) {
+        forgetSession(sessionId);
+        setSessionId(null);
+      }
     }
   };
 
-  const handleDiscard = () => {
+  const handleDownloadCaptions = (format: 'vtt' | 'srt') => {
+    if (format === 'vtt') {
+      downloadText(toWebVTT(questionCues), `${toFileName(takeName)}.vtt`, 'text/vtt');
+    } else {
+      downloadText(toSRT(questionCues), `${toFileName(takeName)}.srt`, 'application/x-subrip');
+    }
+  };
+
+  const handleDownloadTranscript = (format: 'md' | 'txt' | 'json') => {
+    const base = toFileName(takeName);
+    if (format === 'md') {
+      downloadText(transcriptToMarkdown(transcript, takeName), `${base}-transcript.md`, 'text/markdown');
+    } else if (format === 'txt') {
+      downloadText(transcriptToPlainText(transcript), `${base}-transcript.txt`, 'text/plain');
+    } else {
+      downloadText(transcriptToJSON(transcript, takeName), `${base}-transcript.json`, 'application/json');
+    }
+  };
+
+  const handleSeekPreview = (seconds: number) => {
+    if (previewVideoRef.current) {
+      previewVideoRef.current.currentTime = seconds;
+      previewVideoRef.current.play();
+    }
+  };
+
+  // The edit is rendered into a new take, the original stays in the library untouched
+  const handleRenderEdit = async () => {
+    if (!recordedUrl || !currentTake || !editDecision) return;
+    const ranges = getKeptRanges(editDecision);
+    setIsRenderingEdit(true);
+    setRenderProgress(0);
+    try {
+      const source = await (await fetch(recordedUrl)).blob();
+      const rendered = await renderEdit(source, ranges, currentTake.mimeType, setRenderProgress);
+      const take: LibraryTake = {
+        ...currentTake,
+        id: crypto.randomUUID(),
+        name: `${currentTake.name} (edit)`,
+        createdAt: Date.now(),
+        durationMs: rendered.durationMs,
+        mimeType: rendered.mimeType,
+        extension: extensionForMimeType(rendered.mimeType),
+        byteSize: rendered.blob.size,
+        questionCues: remapQuestionCues(questionCues, ranges),
+        transcript: remapTranscript(transcript, ranges),
+        metadata: undefined, // Chapters no longer line up
+        // An edit is a version of a take, not another take of the shoot
+        shootId: undefined,
+        takeNumber: undefined,
+        isKeeper: undefined,
+      };
+      await saveTake(take, rendered.blob);
+      showTake(take, rendered.blob);
+    } catch (err) {
+      console.error(err);
+      setError("Could not render the edit.");
+    } finally {
+      setIsRenderingEdit(false);
+    }
+  };
+
+  // Leaves the preview, the take stays in the library
+  const closePreview = () => {
+    setIsComparing(false);
     setRecordedUrl(null);
+    setCurrentTake(null);
+    setPostMetadata(null);
+    setEditDecision(null);
+    setQuestionCues([]);
+    setTranscript([]);
+    setFallbackNotice(null);
+  };
+
+  const handleDiscard = () => {
+    if (!window.confirm(`Delete "${takeName}"? This can't be undone.`)) return;
+    if (sessionId) {
+      forgetSession(sessionId);
+      setSessionId(null);
+    }
+    if (currentTake) {
+      deleteTake(currentTake.id).catch(err => console.error("Failed to delete take:", err));
+      shoot.removeTake(currentTake.id);
+    }
+    closePreview();
+  };
+
+  // The previewed take as part of the current shoot, with its up to date keeper mark
+  const shootTake = shoot.takes.find(t => t.id === currentTake?.id) ?? null;
+
+  // Starts with the previewed take next to the one before it
+  const getComparisonIds = (): [string, string] => {
+    const index = Math.max(1, shoot.takes.findIndex(t => t.id === shootTake?.id));
+    return [shoot.takes[index - 1].id, shoot.takes[index].id];
   };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-rose-50 via-white to-sky-50 flex flex-col items-center p-4 md:p-8">
       
       {/* Header */}
-      <header className="w-full max-w-4xl flex justify-between items-center mb-6">
+      <header className="w-full max-w-4xl flex justify-between items-center gap-4 mb-6">
         <div className="flex items-center gap-2">
             <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-rose-400 to-orange-300 flex items-center justify-center text-white font-bold text-lg shadow-md">
                 M
@@ -52,14 +473,133 @@ function App() {
         </div>
         
         {!isRecording && (
-          <AspectRatioSelector 
-            selected={aspectRatio} 
-            onChange={setAspectRatio} 
-            disabled={isRecording || !!recordedUrl}
-          />
+          <div className="flex flex-wrap justify-end items-center gap-3">
+            <button
+              onClick={() => setView(view === 'library' ? 'studio' : 'library')}
+              className={`
+                px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-300 shadow-sm border border-white/60 cursor-pointer
+                ${view === 'library' 
+                  ? 'bg-gradient-to-r from-amber-300 to-orange-300 text-white' 
+                  : 'bg-white/50 backdrop-blur-sm text-slate-500 hover:bg-white/80'}
+              `}
+            >
+              {view === 'library' ? '← Studio' : '📚 Library'}
+            </button>
+            <button
+              onClick={() => setBurnInQuestions(prev => !prev)}
+              disabled={!!recordedUrl}
+              title="Draw the AI questions into the recorded video"
+              className={`
+                px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-300 shadow-sm border border-white/60
+                ${burnInQuestions 
+                  ? 'bg-gradient-to-r from-sky-300 to-teal-300 text-white' 
+                  : 'bg-white/50 backdrop-blur-sm text-slate-500 hover:bg-white/80'}
+                ${recordedUrl ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+              `}
+            >
+              {burnInQuestions ? '✨ Prompts in video' : 'Prompts on screen only'}
+            </button>
+            <PromptModeSelector 
+              selected={promptMode}
+              onChange={setPromptMode}
+              script={script}
+              onScriptChange={setScript}
+              onError={setError}
+              disabled={isRecording || isFinishingTake || !!recordedUrl}
+            />
+            <PersonaPicker 
+              personas={personas}
+              selected={selectedPersona}
+              onSelect={selectPersona}
+              onSave={savePersona}
+              onDelete={deletePersona}
+              disabled={isRecording || isFinishingTake || !!recordedUrl}
+            />
+            <VoiceModeSelector 
+              selected={voiceMode}
+              onChange={setVoiceMode}
+              disabled={!!recordedUrl}
+            />
+            <button
+              onClick={() => setIsEditingShortcuts(true)}
+              title={`Shortcuts, e.g. ${formatShortcut(shortcuts.bindings[ShortcutAction.TOGGLE_RECORD])} to record`}
+              className={`
+                px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-300 shadow-sm border border-white/60 cursor-pointer
+                ${shortcuts.voiceCommands 
+                  ? 'bg-gradient-to-r from-violet-300 to-sky-300 text-white' 
+                  : 'bg-white/50 backdrop-blur-sm text-slate-500 hover:bg-white/80'}
+              `}
+            >
+              {shortcuts.voiceCommands ? '⌨️ 🗣️' : '⌨️'}
+            </button>
+            {isEditingShortcuts && (
+              <ShortcutsEditor 
+                settings={shortcuts}
+                onSave={setShortcuts}
+                onClose={() => setIsEditingShortcuts(false)}
+              />
+            )}
+            <DevicePicker 
+              cameras={cameras}
+              microphones={microphones}
+              settings={deviceSettings}
+              onChange={updateDeviceSettings}
+              stream={previewStream}
+              disabled={isRecording || isFinishingTake || !!recordedUrl}
+            />
+            <EffectsPanel 
+              settings={effects}
+              onChange={setEffects}
+              disabled={!!recordedUrl}
+            />
+            <AudioPanel 
+              settings={audioSettings}
+              onChange={setAudioSettings}
+              chain={audioChain}
+              disabled={!!recordedUrl}
+            />
+            <BrandKitPicker 
+              brandKits={brandKits}
+              selected={activeBrandKit}
+              onSelect={selectBrandKit}
+              onSave={saveBrandKit}
+              onDelete={deleteBrandKit}
+              onError={setError}
+              disabled={isRecording || isFinishingTake || !!recordedUrl}
+            />
+            <FormatSelector 
+              selected={preferredFormat} 
+              onChange={setPreferredFormat} 
+              disabled={isRecording || isFinishingTake || !!recordedUrl}
+            />
+            <QualitySelector 
+              selected={quality} 
+              onChange={setQuality} 
+              frame={frame}
+              stream={previewStream}
+              disabled={isRecording || isFinishingTake || !!recordedUrl}
+            />
+            <AspectRatioSelector 
+              selected={frame.id} 
+              customRatios={customRatios}
+              onChange={selectAspectRatio} 
+              onAddCustom={addCustomRatio}
+              onDeleteCustom={deleteCustomRatio}
+              disabled={isRecording || isFinishingTake || !!recordedUrl}
+            />
+          </div>
         )}
       </header>
 
+      {!isRecording && (
+        <RecoveryBanner 
+          sessions={recoverableSessions}
+          busySessionId={recoveringSessionId}
+          onRecover={handleRecoverSession}
+          onDiscard={(session) => forgetSession(session.id)}
+        />
+      )}
+
       {/* Main Content Area */}
       <main className="flex-1 w-full max-w-5xl flex flex-col items-center justify-center relative">
         
@@ -67,80 +607,255 @@ function App() {
             
             {/* Error Toast */}
             {error && (
-                <div className="absolute top-0 z-50 bg-red-100 border border-red-200 text-red-600 px-4 py-2 rounded-lg shadow-sm">
-                    {error}
+                <div className="absolute top-0 z-50 bg-red-100 border border-red-200 text-red-600 px-4 py-2 rounded-lg shadow-sm flex items-center gap-3">
+                    <span>{error}</span>
+                    <button onClick={() => setError(null)} className="text-red-400 hover:text-red-600 font-bold" aria-label="Dismiss">
+                        ×
+                    </button>
                 </div>
             )}
 
-            {recordedUrl ? (
+            {view === 'library' ? (
+                // Library Mode
+                <Library 
+                    onOpen={handleOpenTake}
+                    onDeleted={handleTakeDeleted}
+                    onError={setError}
+                />
+            ) : recordedUrl ? (
                 // Preview Mode
-                <div className="relative h-full flex flex-col items-center justify-center">
-                    <video 
-                        src={recordedUrl} 
-                        controls 
-                        className="max-h-full max-w-full rounded-2xl shadow-xl border-4 border-white bg-black"
-                    />
-                    <div className="absolute bottom-6 flex gap-4">
-                        <button 
-                            onClick={handleDiscard}
-                            className="bg-white text-slate-600 px-6 py-2.5 rounded-full font-semibold shadow-lg hover:bg-slate-50 transition transform hover:scale-105"
+                <div className="h-full w-full flex flex-col md:flex-row items-center justify-center gap-4">
+                    <div className="relative h-full flex flex-col items-center justify-center">
+                        <video 
+                            ref={previewVideoRef}
+                            src={recordedUrl} 
+                            controls={!editDecision}
+                            className="min-h-0 max-h-full max-w-full rounded-2xl shadow-xl border-4 border-white bg-black"
                         >
-                            Discard
-                        </button>
-                        <button 
-                            onClick={handleDownload}
-                            className="bg-gradient-to-r from-teal-400 to-emerald-400 text-white px-8 py-2.5 rounded-full font-semibold shadow-lg hover:shadow-emerald-200 transition transform hover:scale-105 flex items-center gap-2"
-                        >
-                            <span>Download MP4</span>
-                            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
-                                <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M12 12.75l-7.5-7.5M12 12.75l7.5-7.5M12 12.75V3" />
-                            </svg>
-                        </button>
+                            {captionsUrl && (
+                                <track kind="captions" src={captionsUrl} srcLang="en" label="Interviewer" default />
+                            )}
+                        </video>
+                        {fallbackNotice && (
+                            <div className="absolute top-16 bg-amber-50/90 border border-amber-200 text-amber-700 px-4 py-1.5 rounded-full shadow-sm text-xs font-semibold">
+                                {fallbackNotice}
+                            </div>
+                        )}
+                        {questionCues.length > 0 && (
+                            <div className="absolute top-4 flex items-center gap-1 bg-white/80 backdrop-blur-md p-1 pl-3 rounded-full shadow-sm text-xs font-semibold text-slate-500">
+                                <span className="mr-1">Download captions</span>
+                                <button 
+                                    onClick={() => handleDownloadCaptions('vtt')}
+                                    className="px-3 py-1 rounded-full hover:bg-sky-100 hover:text-sky-600 transition"
+                                >
+                                    WebVTT
+                                </button>
+                                <button 
+                                    onClick={() => handleDownloadCaptions('srt')}
+                                    className="px-3 py-1 rounded-full hover:bg-sky-100 hover:text-sky-600 transition"
+                                >
+                                    SRT
+                                </button>
+                            </div>
+                        )}
+                        {shootTake && !editDecision && (
+                            <div className="absolute bottom-20 flex items-center gap-1 bg-white/80 backdrop-blur-md p-1 pl-3 rounded-full shadow-sm text-xs font-semibold text-slate-500">
+                                <span className="mr-1">Take {shootTake.takeNumber} of {shoot.takes.length}</span>
+                                <button 
+                                    onClick={() => shoot.setKeeper(shootTake.isKeeper ? null : shootTake.id)}
+                                    title="Mark the take to keep from this session"
+                                    className={`px-3 py-1 rounded-full transition ${shootTake.isKeeper ? 'bg-amber-300 text-white' : 'hover:bg-amber-100 hover:text-amber-600'}`}
+                                >
+                                    {shootTake.isKeeper ? '⭐ Keeper' : '☆ Keeper'}
+                                </button>
+                                {shoot.takes.length > 1 && (
+                                    <button 
+                                        onClick={() => setIsComparing(true)}
+                                        title="Play two takes of this session side by side"
+                                        className="px-3 py-1 rounded-full hover:bg-sky-100 hover:text-sky-600 transition"
+                                    >
+                                        ⇆ Compare
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                        {isComparing && shoot.takes.length > 1 && (
+                            <TakeComparison 
+                                takes={shoot.takes}
+                                initialIds={getComparisonIds()}
+                                onKeeper={shoot.setKeeper}
+                                onError={setError}
+                                onClose={() => setIsComparing(false)}
+                            />
+                        )}
+                        {editDecision && currentTake ? (
+                            <div className="w-full flex justify-center mt-3">
+                                <TrimEditor 
+                                    videoRef={previewVideoRef}
+                                    duration={currentTake.durationMs / 1000}
+                                    edit={editDecision}
+                                    questionCues={questionCues}
+                                    isRendering={isRenderingEdit}
+                                    renderProgress={renderProgress}
+                                    onChange={setEditDecision}
+                                    onRender={handleRenderEdit}
+                                    onCancel={() => setEditDecision(null)}
+                                />
+                            </div>
+                        ) : (
+                            <div className="absolute bottom-6 flex gap-4">
+                                <button 
+                                    onClick={() => currentTake && setEditDecision(createEditDecision(currentTake.durationMs / 1000))}
+                                    disabled={!currentTake || !(currentTake.durationMs > 0)}
+                                    title="Trim the start and end or cut out sections"
+                                    className="bg-white text-slate-600 px-5 py-2.5 rounded-full font-semibold shadow-lg hover:bg-slate-50 transition transform hover:scale-105 disabled:opacity-50"
+                                >
+                                    ✂️ Trim
+                                </button>
+                                <button 
+                                    onClick={handleDiscard}
+                                    className="bg-white text-slate-600 px-6 py-2.5 rounded-full font-semibold shadow-lg hover:bg-slate-50 transition transform hover:scale-105"
+                                >
+                                    Discard
+                                </button>
+                                <button 
+                                    onClick={closePreview}
+                                    title="Keep this take in the library and record another"
+                                    className="bg-white text-slate-600 px-6 py-2.5 rounded-full font-semibold shadow-lg hover:bg-slate-50 transition transform hover:scale-105"
+                                >
+                                    New Take
+                                </button>
+                                <button 
+                                    onClick={handleDownload}
+                                    className="bg-gradient-to-r from-teal-400 to-emerald-400 text-white px-8 py-2.5 rounded-full font-semibold shadow-lg hover:shadow-emerald-200 transition transform hover:scale-105 flex items-center gap-2"
+                                >
+                                    <span>Download {recordedExtension.toUpperCase()}</span>
+                                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M12 12.75l-7.5-7.5M12 12.75l7.5-7.5M12 12.75V3" />
+                                    </svg>
+                                </button>
+                            </div>
+                        )}
                     </div>
+                    <PreviewSidebar 
+                        transcript={
+                            <TranscriptPanel 
+                                entries={transcript}
+                                onSeek={handleSeekPreview}
+                                onDownload={handleDownloadTranscript}
+                            />
+                        }
+                        publish={
+                            <PostProductionPanel 
+                                metadata={postMetadata}
+                                targets={SOCIAL_CAPTION_TARGETS[nearestAspectRatio(currentTake?.aspectRatio ?? frame.label)]}
+                                isGenerating={isGeneratingMetadata}
+                                onGenerate={handleGenerateMetadata}
+                                onChange={setPostMetadata}
+                                onExport={handleExportMetadata}
+                                onSeek={handleSeekPreview}
+                            />
+                        }
+                    />
                 </div>
             ) : (
                 // Recording Mode
                 <Recorder 
-                    aspectRatio={aspectRatio}
+                    frame={frame}
                     isRecording={isRecording}
+                    isPaused={isPaused}
+                    countdown={countdown}
+                    persona={selectedPersona}
+                    voiceMode={voiceMode}
+                    burnInQuestions={burnInQuestions}
+                    preferredFormat={preferredFormat}
+                    deviceSettings={deviceSettings}
+                    processedAudio={audioChain?.stream ?? null}
+                    quality={quality}
+                    effects={effects}
+                    brandKit={activeBrandKit}
+                    promptMode={promptMode}
+                    script={script}
+                    takeContext={shoot.takeContext}
+                    command={recorderCommand}
+                    voiceCommands={shortcuts.voiceCommands}
+                    onVoiceCommand={runShortcut}
+                    onScriptChange={setScript}
                     onRecordingComplete={handleRecordingComplete}
-                    onStreamReady={() => setHasStream(true)}
+                    onRecordingFailed={handleRecordingFailed}
+                    onStreamReady={setPreviewStream}
+                    onFinishingChange={setIsFinishingTake}
                     onError={setError}
                 />
             )}
         </div>
 
+        {view === 'studio' && !recordedUrl && !isRecording && (
+            <ShootBar 
+                takeCount={shoot.takes.length}
+                settings={shoot.settings}
+                onChange={shoot.updateSettings}
+                onNewShoot={shoot.startNewShoot}
+            />
+        )}
+
       </main>
 
       {/* Footer / Controls */}
       <footer className="w-full max-w-md mt-6 flex justify-center items-center pb-6">
-        {!recordedUrl && (
+        {!recordedUrl && view === 'studio' && (
             <div className="flex items-center gap-6">
                 
-                <div className={`text-slate-400 text-sm font-medium transition-opacity ${isRecording ? 'opacity-100' : 'opacity-0'}`}>
-                    <span className="animate-pulse text-red-500 mr-1">●</span> Recording
+                <div className={`w-24 text-right text-slate-400 text-sm font-medium tabular-nums transition-opacity ${isRecording ? 'opacity-100' : 'opacity-0'}`}>
+                    {isPaused ? (
+                        <span className="text-amber-500 mr-1">❚❚</span>
+                    ) : (
+                        <span className="animate-pulse text-red-500 mr-1">●</span>
+                    )}
+                    {formatDuration(elapsedMs)}
                 </div>
 
                 <button 
                     onClick={handleToggleRecord}
-                    disabled={!hasStream}
+                    disabled={!hasStream || isFinishingTake}
+                    title={isFinishingTake 
+                        ? 'Finishing the outro...' 
+                        : `Record / stop (${formatShortcut(shortcuts.bindings[ShortcutAction.TOGGLE_RECORD])})`}
                     className={`
                         w-16 h-16 rounded-full flex items-center justify-center shadow-xl border-4 border-white transition-all duration-300
                         ${isRecording 
                             ? 'bg-red-50 text-red-500 hover:bg-red-100 scale-110' 
                             : 'bg-gradient-to-tr from-rose-400 to-orange-400 text-white hover:scale-110 hover:shadow-rose-200'}
-                        ${!hasStream ? 'opacity-50 cursor-not-allowed grayscale' : ''}
+                        ${!hasStream || isFinishingTake ? 'opacity-50 cursor-not-allowed grayscale' : ''}
                     `}
                 >
                     {isRecording ? (
                         <div className="w-6 h-6 bg-red-500 rounded-md"></div>
+                    ) : countdown !== null ? (
+                        <span className="text-2xl font-bold tabular-nums">{countdown}</span>
                     ) : (
                         <div className="w-6 h-6 bg-white rounded-full"></div>
                     )}
                 </button>
 
-                <div className={`text-slate-400 text-sm font-medium transition-opacity ${isRecording ? 'opacity-0' : 'opacity-100'}`}>
-                    Tap to Start
+                <div className="w-24">
+                    {isRecording ? (
+                        <button
+                            onClick={() => setIsPaused(prev => !prev)}
+                            className={`
+                                px-4 py-2 rounded-full text-sm font-semibold shadow-md border-2 border-white transition-all duration-300 hover:scale-105
+                                ${isPaused 
+                                    ? 'bg-gradient-to-r from-rose-400 to-orange-400 text-white' 
+                                    : 'bg-amber-50 text-amber-600 hover:bg-amber-100'}
+                            `}
+                        >
+                            {isPaused ? 'Resume' : 'Pause'}
+                        </button>
+                    ) : (
+                        <div className="text-slate-400 text-sm font-medium">
+                            {countdown !== null ? 'Tap to Cancel' : 'Tap to Start'}
+                        </div>
+                    )}
                 </div>
             </div>
         )}
@@ -1,39 +1,129 @@
-import React from 'react';
-import { AspectRatio } from '../types';
+import React, { useState } from 'react';
+import { AspectRatio, CustomAspectRatio } from '../types';
+import { customRatioLabel, parseCustomRatio } from '../utils/aspectRatio';
 
 interface AspectRatioSelectorProps {
-  selected: AspectRatio;
-  onChange: (ratio: AspectRatio) => void;
+  selected: string;
+  customRatios: CustomAspectRatio[];
+  onChange: (id: string) => void;
+  onAddCustom: (ratio: CustomAspectRatio) => void;
+  onDeleteCustom: (id: string) => void;
   disabled: boolean;
 }
 
-export const AspectRatioSelector: React.FC<AspectRatioSelectorProps> = ({ selected, onChange, disabled }) => {
+export const AspectRatioSelector: React.FC<AspectRatioSelectorProps> = ({ 
+  selected, 
+  customRatios, 
+  onChange, 
+  onAddCustom, 
+  onDeleteCustom, 
+  disabled 
+}) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [input, setInput] = useState('');
+  const [inputError, setInputError] = useState<string | null>(null);
+
   const ratios = [
     { value: AspectRatio.PORTRAIT_9_16, label: '9:16', icon: '📱' },
+    { value: AspectRatio.PORTRAIT_2_3, label: '2:3', icon: '📌' },
     { value: AspectRatio.PORTRAIT_3_4, label: '3:4', icon: '🖼️' },
+    { value: AspectRatio.PORTRAIT_4_5, label: '4:5', icon: '📸' },
     { value: AspectRatio.SQUARE_1_1, label: '1:1', icon: '🟦' },
     { value: AspectRatio.LANDSCAPE_16_9, label: '16:9', icon: '💻' },
+    { value: AspectRatio.CINEMA_21_9, label: '21:9', icon: '🎬' },
   ];
 
+  const buttonClass = (isSelected: boolean) => `
+    relative px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-300 flex items-center gap-1
+    ${isSelected 
+      ? 'bg-gradient-to-r from-rose-300 to-pink-300 text-white shadow-md transform scale-105' 
+      : 'text-slate-500 hover:bg-white/80'}
+    ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+  `;
+
+  const handleAdd = () => {
+    const { ratio, error } = parseCustomRatio(input);
+    if (!ratio) {
+      setInputError(error ?? 'Invalid ratio.');
+      return;
+    }
+    onAddCustom(ratio);
+    setInput('');
+    setInputError(null);
+    setIsAdding(false);
+  };
+
   return (
-    <div className="flex space-x-2 bg-white/50 backdrop-blur-sm p-1.5 rounded-full shadow-sm border border-white/60">
+    <div className="relative flex flex-wrap gap-1 bg-white/50 backdrop-blur-sm p-1.5 rounded-full shadow-sm border border-white/60">
       {ratios.map((ratio) => (
         <button
           key={ratio.value}
           onClick={() => onChange(ratio.value)}
           disabled={disabled}
-          className={`
-            relative px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-300 flex items-center gap-1
-            ${selected === ratio.value 
-              ? 'bg-gradient-to-r from-rose-300 to-pink-300 text-white shadow-md transform scale-105' 
-              : 'text-slate-500 hover:bg-white/80'}
-            ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
-          `}
+          className={buttonClass(selected === ratio.value)}
         >
           <span>{ratio.icon}</span>
           <span>{ratio.label}</span>
         </button>
       ))}
+
+      {customRatios.map((ratio) => (
+        <div key={ratio.id} className="group relative">
+          <button
+            onClick={() => onChange(ratio.id)}
+            disabled={disabled}
+            title={ratio.exactSize ? 'Exact output size' : 'Custom ratio'}
+            className={buttonClass(selected === ratio.id)}
+          >
+            <span>{ratio.exactSize ? '📐' : '✨'}</span>
+            <span>{customRatioLabel(ratio)}</span>
+          </button>
+          {!disabled && (
+            <button
+              onClick={() => onDeleteCustom(ratio.id)}
+              title="Remove"
+              className="absolute -top-1 -right-1 hidden group-hover:flex w-4 h-4 items-center justify-center rounded-full bg-white text-[10px] text-slate-400 hover:text-red-400 shadow"
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+
+      <button
+        onClick={() => setIsAdding(open => !open)}
+        disabled={disabled}
+        title="Add a custom ratio or exact size"
+        className={buttonClass(false)}
+      >
+        +
+      </button>
+
+      {isAdding && (
+        <div className="absolute right-0 top-full mt-2 z-40 w-64 bg-white rounded-2xl shadow-xl border border-slate-100 p-4 space-y-2">
+          <label className="text-xs font-semibold text-slate-500 block">Ratio or exact size</label>
+          <div className="flex gap-2">
+            <input
+              autoFocus
+              value={input}
+              onChange={(e) => {
+                setInput(e.target.value);
+                setInputError(null);
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              placeholder="4:5 or 1200x628"
+              className="flex-1 min-w-0 rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 outline-none focus:border-rose-300"
+            />
+            <button
+              onClick={handleAdd}
+              className="px-3 py-2 rounded-lg bg-rose-400 text-white text-xs font-semibold hover:bg-rose-500"
+            >
+              Add
+            </button>
+          </div>
+          {inputError && <p className="text-xs text-red-400">{inputError}</p>}
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { AudioLevels, AudioSettings, LOUDNESS_TARGETS, LoudnessTarget } from '../types';
+import { AudioChain } from '../utils/audioChain';
+import { DEFAULT_AUDIO_SETTINGS } from '../services/audioSettings';
+
+interface AudioPanelProps {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  chain: AudioChain | null;
+  disabled: boolean;
+}
+
+const labelClass = "text-xs font-semibold text-slate-500 flex justify-between mb-1";
+const METER_REFRESH_MS = 100;
+// Meter scale, quieter than this is an empty bar
+const METER_FLOOR_DB = -40;
+
+const toMeterPercent = (db: number) => Math.max(0, Math.min(100, (1 - db / METER_FLOOR_DB) * 100));
+
+export const AudioPanel: React.FC<AudioPanelProps> = ({ settings, onChange, chain, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [levels, setLevels] = useState<AudioLevels | null>(null);
+  const target = LOUDNESS_TARGETS[settings.loudnessTarget].lufs;
+  const isActive = settings.compressor || settings.gainDb !== 0 || target !== null;
+
+  // Only polls while the panel is open
+  useEffect(() => {
+    if (!isOpen || !chain) {
+      setLevels(null);
+      return;
+    }
+    const interval = setInterval(() => setLevels(chain.readLevels()), METER_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [isOpen, chain]);
+
+  const update = <K extends keyof AudioSettings>(key: K, value: AudioSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  const toggles: { key: 'noiseSuppression' | 'highPass' | 'compressor'; label: string }[] = [
+    { key: 'noiseSuppression', label: 'Noise suppression (quiets the room between words)' },
+    { key: 'highPass', label: 'High-pass filter (cut rumble)' },
+    { key: 'compressor', label: 'Compressor' },
+  ];
+
+  const loudness = levels?.loudness ?? null;
+  const isOnTarget = target !== null && loudness !== null && Math.abs(loudness - target) <= 2;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        title="Mic processing and loudness, recorded into the video"
+        className={`
+          px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-300 shadow-sm border border-white/60 flex items-center gap-1
+          ${isActive 
+            ? 'bg-gradient-to-r from-teal-300 to-sky-300 text-white' 
+            : isOpen ? 'bg-white text-slate-600' : 'bg-white/50 backdrop-blur-sm text-slate-500 hover:bg-white/80'}
+          ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+        `}
+      >
+        <span>🎚️</span>
+        <span>{target !== null ? `${target} LUFS` : 'Audio'}</span>
+      </button>
+
+      {isOpen && !disabled && (
+        <div className="absolute right-0 top-full mt-2 z-40 w-72 bg-white rounded-2xl shadow-xl border border-slate-100 p-4 space-y-3">
+          <div>
+            <span className={labelClass}>
+              <span>Loudness</span>
+              <span className={`tabular-nums ${isOnTarget ? 'text-emerald-500' : 'text-slate-400'}`}>
+                {loudness === null ? '—' : `${loudness.toFixed(1)} LUFS`}
+              </span>
+            </span>
+            <div className="relative h-2 rounded-full bg-slate-100 overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-teal-300 to-emerald-400 transition-[width] duration-100"
+                style={{ width: `${loudness === null ? 0 : toMeterPercent(loudness)}%` }}
+              />
+              {target !== null && (
+                <div className="absolute top-0 h-full w-0.5 bg-rose-400" style={{ left: `${toMeterPercent(target)}%` }} title="Target" />
+              )}
+            </div>
+            <div className="flex justify-between mt-1 text-[10px] text-slate-400 tabular-nums">
+              <span>Peak {levels && Number.isFinite(levels.peakDb) ? `${levels.peakDb.toFixed(1)} dB` : '—'}</span>
+              {target !== null && levels && (
+                <span>Levelling {levels.normalizationDb >= 0 ? '+' : ''}{levels.normalizationDb.toFixed(1)} dB</span>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <span className={labelClass}>Loudness target</span>
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(LOUDNESS_TARGETS).map(([id, option]) => (
+                <button
+                  key={id}
+                  onClick={() => update('loudnessTarget', id as LoudnessTarget)}
+                  className={`px-2.5 py-1 rounded-full text-xs font-semibold transition ${
+                    settings.loudnessTarget === id ? 'bg-teal-400 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>
+              <span>Gain</span>
+              <span className="tabular-nums text-slate-400">{settings.gainDb > 0 ? '+' : ''}{settings.gainDb} dB</span>
+            </label>
+            <input
+              type="range"
+              min={-12}
+              max={12}
+              step={1}
+              value={settings.gainDb}
+              onChange={(e) => update('gainDb', parseInt(e.target.value, 10))}
+              className="w-full accent-teal-400"
+            />
+          </div>
+
+          {toggles.map(toggle => (
+            <label key={toggle.key} className="flex items-center gap-2 text-xs font-semibold text-slate-500 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings[toggle.key]}
+                onChange={(e) => update(toggle.key, e.target.checked)}
+                className="accent-teal-400"
+              />
+              {toggle.label}
+            </label>
+          ))}
+
+          <button
+            onClick={() => onChange(DEFAULT_AUDIO_SETTINGS)}
+            className="w-full py-1.5 rounded-lg text-xs font-semibold text-slate-500 bg-slate-100 hover:bg-slate-200"
+          >
+            Reset
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { BrandCard, BrandKit, WatermarkCorner } from '../types';
+import { readLogoFile } from '../services/brandKits';
+
+interface BrandKitEditorProps {
+  brandKit: BrandKit;
+  isNew: boolean;
+  onSave: (kit: BrandKit) => void;
+  onDelete: (id: string) => void;
+  onError: (msg: string) => void;
+  onClose: () => void;
+}
+
+const fieldClass = "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 outline-none focus:border-rose-300";
+const labelClass = "text-xs font-semibold text-slate-500 mb-1 block";
+
+const CORNERS: { value: WatermarkCorner; label: string }[] = [
+  { value: 'top-left', label: '↖ Top left' },
+  { value: 'top-right', label: '↗ Top right' },
+  { value: 'bottom-left', label: '↙ Bottom left' },
+  { value: 'bottom-right', label: '↘ Bottom right' },
+];
+
+export const BrandKitEditor: React.FC<BrandKitEditorProps> = ({ brandKit, isNew, onSave, onDelete, onError, onClose }) => {
+  const [draft, setDraft] = useState<BrandKit>(brandKit);
+
+  const update = <K extends keyof BrandKit>(key: K, value: BrandKit[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateCard = (key: 'intro' | 'outro', patch: Partial<BrandCard>) => {
+    setDraft(prev => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+  };
+
+  const handleLogo = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      update('logo', await readLogoFile(file));
+    } catch (err) {
+      console.error(err);
+      onError(err instanceof Error ? err.message : "Could not load the logo.");
+    }
+  };
+
+  const isValid = draft.name.trim() !== '';
+
+  const handleSave = () => {
+    if (!isValid) return;
+    onSave({ ...draft, name: draft.name.trim() });
+    onClose();
+  };
+
+  const renderCard = (key: 'intro' | 'outro', label: string) => (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-xs font-semibold text-slate-500 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={draft[key].enabled}
+          onChange={(e) => updateCard(key, { enabled: e.target.checked })}
+          className="accent-rose-400"
+        />
+        {label}
+      </label>
+      {draft[key].enabled && (
+        <div className="grid grid-cols-[1fr_1fr_5rem] gap-2">
+          <input
+            className={fieldClass}
+            placeholder="Title"
+            value={draft[key].title}
+            onChange={(e) => updateCard(key, { title: e.target.value })}
+          />
+          <input
+            className={fieldClass}
+            placeholder="Subtitle"
+            value={draft[key].subtitle}
+            onChange={(e) => updateCard(key, { subtitle: e.target.value })}
+          />
+          <input
+            type="number"
+            min={1}
+            max={10}
+            title="Seconds"
+            className={fieldClass}
+            value={draft[key].durationSec}
+            onChange={(e) => updateCard(key, { durationSec: Math.min(10, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+          />
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto scrollbar-hide bg-white rounded-3xl shadow-2xl p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-bold text-slate-700">{isNew ? 'New brand kit' : 'Edit brand kit'}</h2>
+
+        <div className="grid grid-cols-[1fr_5rem] gap-3">
+          <label>
+            <span className={labelClass}>Name</span>
+            <input className={fieldClass} value={draft.name} onChange={(e) => update('name', e.target.value)} />
+          </label>
+          <label>
+            <span className={labelClass}>Accent</span>
+            <input
+              type="color"
+              className="w-full h-[38px] rounded-lg border border-slate-200 cursor-pointer"
+              value={draft.accentColor}
+              onChange={(e) => update('accentColor', e.target.value)}
+            />
+          </label>
+        </div>
+
+        <div>
+          <span className={labelClass}>Logo watermark</span>
+          <div className="flex items-center gap-3">
+            <div className="w-16 h-16 rounded-xl bg-slate-100 flex items-center justify-center overflow-hidden shrink-0">
+              {draft.logo
+                ? <img src={draft.logo} alt="Logo" className="max-w-full max-h-full object-contain" />
+                : <span className="text-xs text-slate-400">None</span>}
+            </div>
+            <div className="flex-1 space-y-2">
+              <div className="flex gap-2">
+                <label className="px-3 py-1.5 rounded-full text-xs font-semibold bg-slate-100 text-slate-600 hover:bg-slate-200 cursor-pointer">
+                  Upload
+                  <input type="file" accept="image/*" className="hidden" onChange={(e) => handleLogo(e.target.files?.[0])} />
+                </label>
+                {draft.logo && (
+                  <button
+                    onClick={() => update('logo', null)}
+                    className="px-3 py-1.5 rounded-full text-xs font-semibold text-slate-400 hover:text-red-500"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  className={fieldClass}
+                  value={draft.logoCorner}
+                  onChange={(e) => update('logoCorner', e.target.value as WatermarkCorner)}
+                >
+                  {CORNERS.map(c => (
+                    <option key={c.value} value={c.value}>{c.label}</option>
+                  ))}
+                </select>
+                <input
+                  type="range"
+                  min={0.1}
+                  max={1}
+                  step={0.05}
+                  title={`Opacity ${Math.round(draft.logoOpacity * 100)}%`}
+                  value={draft.logoOpacity}
+                  onChange={(e) => update('logoOpacity', parseFloat(e.target.value))}
+                  className="w-full accent-rose-400"
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-xs font-semibold text-slate-500 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.lowerThird.enabled}
+              onChange={(e) => update('lowerThird', { ...draft.lowerThird, enabled: e.target.checked })}
+              className="accent-rose-400"
+            />
+            Lower-third name tag
+          </label>
+          {draft.lowerThird.enabled && (
+            <div className="grid grid-cols-[1fr_1fr_5rem] gap-2">
+              <input
+                className={fieldClass}
+                placeholder="Guest name"
+                value={draft.lowerThird.name}
+                onChange={(e) => update('lowerThird', { ...draft.lowerThird, name: e.target.value })}
+              />
+              <input
+                className={fieldClass}
+                placeholder="Title or company"
+                value={draft.lowerThird.title}
+                onChange={(e) => update('lowerThird', { ...draft.lowerThird, title: e.target.value })}
+              />
+              <input
+                type="number"
+                min={2}
+                max={60}
+                title="Seconds on screen"
+                className={fieldClass}
+                value={draft.lowerThird.durationSec}
+                onChange={(e) => update('lowerThird', {
+                  ...draft.lowerThird,
+                  durationSec: Math.min(60, Math.max(2, parseInt(e.target.value, 10) || 2))
+                })}
+              />
+            </div>
+          )}
+        </div>
+
+        {renderCard('intro', 'Intro card')}
+        {renderCard('outro', 'Outro card')}
+
+        <div className="flex justify-between items-center pt-2">
+          {!isNew ? (
+            <button
+              onClick={() => { onDelete(brandKit.id); onClose(); }}
+              className="text-xs font-semibold text-slate-400 hover:text-red-500 transition"
+            >
+              Delete brand kit
+            </button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="bg-white text-slate-600 px-5 py-2 rounded-full font-semibold shadow-md hover:bg-slate-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!isValid}
+              className="bg-gradient-to-r from-rose-400 to-orange-400 text-white px-6 py-2 rounded-full font-semibold shadow-md transition disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { BrandKit } from '../types';
+import { createBrandKit } from '../services/brandKits';
+import { BrandKitEditor } from './BrandKitEditor';
+
+interface BrandKitPickerProps {
+  brandKits: BrandKit[];
+  selected: BrandKit | null;
+  onSelect: (id: string) => void;
+  onSave: (kit: BrandKit) => void;
+  onDelete: (id: string) => void;
+  onError: (msg: string) => void;
+  disabled: boolean;
+}
+
+export const BrandKitPicker: React.FC<BrandKitPickerProps> = ({ brandKits, selected, onSelect, onSave, onDelete, onError, disabled }) => {
+  const [editing, setEditing] = useState<BrandKit | null>(null);
+
+  return (
+    <div className="flex items-center gap-1 bg-white/50 backdrop-blur-sm p-1.5 rounded-full shadow-sm border border-white/60">
+      <span className="pl-2 text-xs">🏷️</span>
+      <select
+        value={selected?.id ?? ''}
+        onChange={(e) => onSelect(e.target.value)}
+        disabled={disabled}
+        className="bg-transparent text-xs font-semibold text-slate-600 outline-none cursor-pointer disabled:cursor-not-allowed max-w-[8rem]"
+      >
+        <option value="">No branding</option>
+        {brandKits.map(k => (
+          <option key={k.id} value={k.id}>{k.name}</option>
+        ))}
+      </select>
+      {selected && (
+        <button
+          onClick={() => setEditing(selected)}
+          disabled={disabled}
+          title="Edit brand kit"
+          className="px-2 py-1 rounded-full text-xs text-slate-500 hover:bg-white/80 disabled:opacity-50"
+        >
+          ✏️
+        </button>
+      )}
+      <button
+        onClick={() => setEditing(selected ? { ...selected, id: crypto.randomUUID(), name: `${selected.name} (copy)` } : createBrandKit())}
+        disabled={disabled}
+        title={selected ? 'New brand kit based on this one' : 'New brand kit'}
+        className="px-2 py-1 rounded-full text-xs font-bold text-slate-500 hover:bg-white/80 disabled:opacity-50"
+      >
+        +
+      </button>
+
+      {editing && (
+        <BrandKitEditor 
+          brandKit={editing}
+          isNew={!brandKits.some(k => k.id === editing.id)}
+          onSave={onSave}
+          onDelete={onDelete}
+          onError={onError}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { DeviceSettings } from '../types';
+import { LevelMeter } from './LevelMeter';
+
+interface DevicePickerProps {
+  cameras: MediaDeviceInfo[];
+  microphones: MediaDeviceInfo[];
+  settings: DeviceSettings;
+  onChange: (patch: Partial<DeviceSettings>) => void;
+  stream: MediaStream | null;
+  disabled: boolean;
+}
+
+const fieldClass = "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 outline-none focus:border-rose-300 disabled:opacity-50";
+const labelClass = "text-xs font-semibold text-slate-500 mb-1 block";
+
+// Labels are empty before permission is granted
+const deviceLabel = (device: MediaDeviceInfo, index: number, fallback: string) => 
+  device.label || `${fallback} ${index + 1}`;
+
+export const DevicePicker: React.FC<DevicePickerProps> = ({ cameras, microphones, settings, onChange, stream, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        title="Camera and microphone"
+        className={`
+          px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-300 shadow-sm border border-white/60 flex items-center gap-1
+          ${isOpen ? 'bg-white text-slate-600' : 'bg-white/50 backdrop-blur-sm text-slate-500 hover:bg-white/80'}
+        `}
+      >
+        <span>📷</span>
+        <span>Devices</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-40 w-72 bg-white rounded-2xl shadow-xl border border-slate-100 p-4 space-y-3">
+          <div>
+            <label className={labelClass}>Camera</label>
+            <select
+              value={settings.cameraId}
+              onChange={(e) => onChange({ cameraId: e.target.value })}
+              disabled={disabled}
+              className={fieldClass}
+            >
+              <option value="">Default camera</option>
+              {settings.cameraId && !cameras.some(d => d.deviceId === settings.cameraId) && (
+                <option value={settings.cameraId}>Saved camera (not connected)</option>
+              )}
+              {cameras.map((device, i) => (
+                <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i, 'Camera')}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClass}>Microphone</label>
+            <select
+              value={settings.micId}
+              onChange={(e) => onChange({ micId: e.target.value })}
+              disabled={disabled}
+              className={fieldClass}
+            >
+              <option value="">Default microphone</option>
+              {settings.micId && !microphones.some(d => d.deviceId === settings.micId) && (
+                <option value={settings.micId}>Saved microphone (not connected)</option>
+              )}
+              {microphones.map((device, i) => (
+                <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i, 'Microphone')}</option>
+              ))}
+            </select>
+            <LevelMeter stream={stream} className="mt-2" />
+          </div>
+
+          {disabled && (
+            <p className="text-xs text-slate-400">Devices can't be switched while recording.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { COLOR_LOOKS, ColorLook, EffectSettings } from '../types';
+import { DEFAULT_EFFECT_SETTINGS, hasActiveEffects } from '../utils/effects';
+import { loadPersonSegmenter } from '../utils/segmentation';
+
+interface EffectsPanelProps {
+  settings: EffectSettings;
+  onChange: (settings: EffectSettings) => void;
+  disabled: boolean;
+}
+
+const labelClass = "text-xs font-semibold text-slate-500 flex justify-between mb-1";
+
+export const EffectsPanel: React.FC<EffectsPanelProps> = ({ settings, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const isActive = hasActiveEffects(settings);
+  const [segmentation, setSegmentation] = useState<'loading' | 'ready' | 'unavailable'>('loading');
+
+  useEffect(() => {
+    if (!settings.backgroundBlur) return;
+    let cancelled = false;
+    loadPersonSegmenter().then(segmenter => {
+      if (!cancelled) setSegmentation(segmenter ? 'ready' : 'unavailable');
+    });
+    return () => { cancelled = true; };
+  }, [settings.backgroundBlur]);
+
+  const update = <K extends keyof EffectSettings>(key: K, value: EffectSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  const sliders: { key: 'brightness' | 'contrast' | 'smoothing' | 'vignette'; label: string; min: number; max: number }[] = [
+    { key: 'brightness', label: 'Brightness', min: 0.5, max: 1.5 },
+    { key: 'contrast', label: 'Contrast', min: 0.5, max: 1.5 },
+    { key: 'smoothing', label: 'Skin smoothing', min: 0, max: 1 },
+    { key: 'vignette', label: 'Vignette', min: 0, max: 1 },
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        title="Looks and effects, recorded into the video"
+        className={`
+          px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-300 shadow-sm border border-white/60 flex items-center gap-1
+          ${isActive 
+            ? 'bg-gradient-to-r from-fuchsia-300 to-rose-300 text-white' 
+            : isOpen ? 'bg-white text-slate-600' : 'bg-white/50 backdrop-blur-sm text-slate-500 hover:bg-white/80'}
+          ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+        `}
+      >
+        <span>🎨</span>
+        <span>Effects</span>
+      </button>
+
+      {isOpen && !disabled && (
+        <div className="absolute right-0 top-full mt-2 z-40 w-72 bg-white rounded-2xl shadow-xl border border-slate-100 p-4 space-y-3">
+          <div>
+            <span className={labelClass}>Look</span>
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(COLOR_LOOKS).map(([id, look]) => (
+                <button
+                  key={id}
+                  onClick={() => update('look', id as ColorLook)}
+                  className={`px-2.5 py-1 rounded-full text-xs font-semibold transition ${
+                    settings.look === id ? 'bg-rose-400 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+                  }`}
+                >
+                  {look.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {sliders.map(slider => (
+            <div key={slider.key}>
+              <label className={labelClass}>
+                <span>{slider.label}</span>
+                <span className="tabular-nums text-slate-400">{Math.round(settings[slider.key] * 100)}%</span>
+              </label>
+              <input
+                type="range"
+                min={slider.min}
+                max={slider.max}
+                step={0.05}
+                value={settings[slider.key]}
+                onChange={(e) => update(slider.key, parseFloat(e.target.value))}
+                className="w-full accent-rose-400"
+              />
+            </div>
+          ))}
+
+          <label className="flex items-center gap-2 text-xs font-semibold text-slate-500 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.backgroundBlur}
+              onChange={(e) => update('backgroundBlur', e.target.checked)}
+              className="accent-rose-400"
+            />
+            Blur background
+          </label>
+          {settings.backgroundBlur && segmentation !== 'ready' && (
+            <p className="text-[11px] text-slate-400 -mt-2 pl-5">
+              {segmentation === 'loading'
+                ? 'Loading the on-device person segmentation…'
+                : 'Segmentation unavailable. Using an approximate face-based mask, so hair and hands may blur.'}
+            </p>
+          )}
+
+          <button
+            onClick={() => onChange(DEFAULT_EFFECT_SETTINGS)}
+            disabled={!isActive}
+            className="w-full py-1.5 rounded-lg text-xs font-semibold text-slate-500 bg-slate-100 hover:bg-slate-200 disabled:opacity-50"
+          >
+            Reset
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
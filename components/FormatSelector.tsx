@@ -0,0 +1,37 @@
+import React from 'react';
+import { RECORDING_FORMATS, RecordingFormatId } from '../types';
+import { isFormatSupported } from '../utils/mediaFormats';
+
+interface FormatSelectorProps {
+  selected: RecordingFormatId;
+  onChange: (format: RecordingFormatId) => void;
+  disabled: boolean;
+}
+
+export const FormatSelector: React.FC<FormatSelectorProps> = ({ selected, onChange, disabled }) => {
+  return (
+    <div className="flex space-x-1 bg-white/50 backdrop-blur-sm p-1.5 rounded-full shadow-sm border border-white/60">
+      {RECORDING_FORMATS.map((format) => {
+        const supported = isFormatSupported(format);
+        return (
+          <button
+            key={format.id}
+            onClick={() => onChange(format.id)}
+            disabled={disabled}
+            title={supported ? undefined : 'Not supported in this browser, another format will be used'}
+            className={`
+              px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-300
+              ${selected === format.id 
+                ? 'bg-gradient-to-r from-violet-300 to-indigo-300 text-white shadow-md' 
+                : 'text-slate-500 hover:bg-white/80'}
+              ${!supported ? 'line-through decoration-slate-400' : ''}
+              ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+            `}
+          >
+            {format.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import React from 'react';
+import { useAudioLevel } from '../hooks/useAudioLevel';
+
+interface LevelMeterProps {
+  stream: MediaStream | null;
+  className?: string;
+}
+
+export const LevelMeter: React.FC<LevelMeterProps> = ({ stream, className = '' }) => {
+  const level = useAudioLevel(stream);
+
+  return (
+    <div className={`h-1.5 rounded-full bg-slate-200 overflow-hidden ${className}`} title="Microphone level">
+      <div 
+        className={`h-full rounded-full transition-[width] duration-75 ${level > 0.9 ? 'bg-red-400' : 'bg-gradient-to-r from-teal-300 to-emerald-400'}`}
+        style={{ width: `${Math.round(level * 100)}%` }}
+      />
+    </div>
+  );
+};
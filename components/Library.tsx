@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LibraryTake } from '../types';
+import { deleteTake, getLibraryUsage, getTakeMedia, LibraryUsage, listTakes, renameTake } from '../services/library';
+import { downloadBlob } from '../utils/download';
+import { formatDuration, formatSize, toFileName } from '../utils/format';
+
+interface LibraryProps {
+  onOpen: (take: LibraryTake) => void;
+  onDeleted: (id: string) => void;
+  onError: (msg: string) => void;
+}
+
+export const Library: React.FC<LibraryProps> = ({ onOpen, onDeleted, onError }) => {
+  const [takes, setTakes] = useState<LibraryTake[] | null>(null);
+  const [usage, setUsage] = useState<LibraryUsage | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    listTakes()
+      .then(setTakes)
+      .catch(err => {
+        console.error(err);
+        onError("Could not open the recordings library.");
+        setTakes([]);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!takes) return;
+    getLibraryUsage(takes).then(setUsage).catch(console.error);
+  }, [takes]);
+
+  // Poster thumbnails as object URLs, released when the list changes
+  const posterUrls = useMemo(() => {
+    const urls: Record<string, string> = {};
+    takes?.forEach(take => {
+      if (take.poster) urls[take.id] = URL.createObjectURL(take.poster);
+    });
+    return urls;
+  }, [takes]);
+
+  useEffect(() => {
+    return () => Object.values<string>(posterUrls).forEach(url => URL.revokeObjectURL(url));
+  }, [posterUrls]);
+
+  const startRename = (take: LibraryTake) => {
+    setEditingId(take.id);
+    setDraftName(take.name);
+  };
+
+  const commitRename = async () => {
+    const id = editingId;
+    const name = draftName.trim();
+    setEditingId(null);
+    if (!id || !name) return;
+
+    setTakes(prev => prev?.map(t => t.id === id ? { ...t, name } : t) ?? null);
+    try {
+      await renameTake(id, name);
+    } catch (err) {
+      console.error(err);
+      onError("Could not rename the take.");
+    }
+  };
+
+  const handleDownload = async (take: LibraryTake) => {
+    setBusyId(take.id);
+    try {
+      const media = await getTakeMedia(take.id);
+      downloadBlob(media, `${toFileName(take.name)}.${take.extension}`);
+    } catch (err) {
+      console.error(err);
+      onError("Could not load the take for download.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (take: LibraryTake) => {
+    if (!window.confirm(`Delete "${take.name}"? This can't be undone.`)) return;
+    try {
+      await deleteTake(take.id);
+      setTakes(prev => prev?.filter(t => t.id !== take.id) ?? null);
+      onDeleted(take.id);
+    } catch (err) {
+      console.error(err);
+      onError("Could not delete the take.");
+    }
+  };
+
+  if (!takes) {
+    return (
+      <div className="w-full h-full flex items-center justify-center text-slate-400 animate-pulse">
+        Loading library...
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      <div className="flex justify-between items-baseline mb-4 px-1">
+        <h2 className="text-lg font-bold text-slate-700">Your takes</h2>
+        {usage && (
+          <span className="text-xs font-medium text-slate-400">
+            {formatSize(usage.takesBytes)} in library
+            {usage.quotaBytes !== null && usage.usedBytes !== null && 
+              ` · ${formatSize(Math.max(0, usage.quotaBytes - usage.usedBytes))} available`}
+          </span>
+        )}
+      </div>
+
+      {takes.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-slate-400 text-sm">
+          Nothing here yet. Finished takes are saved automatically.
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto scrollbar-hide grid grid-cols-2 md:grid-cols-4 gap-4 content-start">
+          {takes.map((take) => (
+            <div key={take.id} className="bg-white rounded-2xl shadow-md border-4 border-white overflow-hidden flex flex-col">
+              <button 
+                onClick={() => onOpen(take)}
+                className="relative aspect-video bg-slate-100 overflow-hidden group"
+                title="Preview"
+              >
+                {posterUrls[take.id] ? (
+                  <img src={posterUrls[take.id]} alt="" className="w-full h-full object-contain bg-slate-900" />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-slate-300 text-2xl">🎬</div>
+                )}
+                <span className="absolute bottom-1 right-1 bg-black/60 text-white text-[10px] font-semibold px-1.5 py-0.5 rounded">
+                  {formatDuration(take.durationMs)}
+                </span>
+                {take.isKeeper && (
+                  <span className="absolute top-1 left-1 bg-amber-300 text-white text-[10px] font-bold px-1.5 py-0.5 rounded" title="Keeper of its session">
+                    ⭐ Keeper
+                  </span>
+                )}
+                <span className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition" />
+              </button>
+
+              <div className="p-2 flex flex-col gap-1">
+                {editingId === take.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="text-sm font-semibold text-slate-700 border border-rose-200 rounded px-1 outline-none"
+                  />
+                ) : (
+                  <button 
+                    onClick={() => startRename(take)} 
+                    className="text-sm font-semibold text-slate-700 text-left truncate hover:text-rose-500"
+                    title="Rename"
+                  >
+                    {take.name}
+                  </button>
+                )}
+                <span className="text-[11px] text-slate-400">
+                  {new Date(take.createdAt).toLocaleDateString()} · {take.aspectRatio} · {formatSize(take.byteSize)}
+                  {take.questionCues.length > 0 && ` · ${take.questionCues.length} questions`}
+                </span>
+                <div className="flex gap-1 mt-1">
+                  <button
+                    onClick={() => handleDownload(take)}
+                    disabled={busyId === take.id}
+                    className="flex-1 text-xs font-semibold py-1 rounded-full bg-emerald-50 text-emerald-600 hover:bg-emerald-100 transition disabled:opacity-50"
+                  >
+                    Download
+                  </button>
+                  <button
+                    onClick={() => handleDelete(take)}
+                    className="text-xs font-semibold px-3 py-1 rounded-full bg-slate-50 text-slate-400 hover:bg-red-50 hover:text-red-500 transition"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { InterviewerPersona, PERSONA_LANGUAGES, PERSONA_VOICES, PersonaTone } from '../types';
+
+interface PersonaEditorProps {
+  persona: InterviewerPersona;
+  onSave: (persona: InterviewerPersona) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const fieldClass = "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 outline-none focus:border-rose-300";
+const labelClass = "text-xs font-semibold text-slate-500 mb-1 block";
+
+export const PersonaEditor: React.FC<PersonaEditorProps> = ({ persona, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<InterviewerPersona>(persona);
+  const [questionsText, setQuestionsText] = useState(persona.questions.join('\n'));
+
+  const update = <K extends keyof InterviewerPersona>(key: K, value: InterviewerPersona[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const isValid = draft.name.trim() !== '' && draft.role.trim() !== '' && draft.maxWords > 0;
+
+  const handleSave = () => {
+    if (!isValid) return;
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      role: draft.role.trim(),
+      questions: questionsText.split('\n').map(q => q.trim()).filter(Boolean),
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div 
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto scrollbar-hide bg-white rounded-3xl shadow-2xl p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-bold text-slate-700">{persona.builtIn ? 'Persona' : 'Edit persona'}</h2>
+
+        <fieldset disabled={persona.builtIn} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <label>
+              <span className={labelClass}>Name</span>
+              <input className={fieldClass} value={draft.name} onChange={(e) => update('name', e.target.value)} />
+            </label>
+            <label>
+              <span className={labelClass}>Tone</span>
+              <select className={fieldClass} value={draft.tone} onChange={(e) => update('tone', e.target.value as PersonaTone)}>
+                {Object.values(PersonaTone).map(tone => (
+                  <option key={tone} value={tone}>{tone}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <label className="block">
+            <span className={labelClass}>Interviewer role</span>
+            <input className={fieldClass} value={draft.role} onChange={(e) => update('role', e.target.value)} />
+          </label>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label>
+              <span className={labelClass}>Max words</span>
+              <input 
+                type="number" 
+                min={3} 
+                max={60} 
+                className={fieldClass} 
+                value={draft.maxWords} 
+                onChange={(e) => update('maxWords', Math.max(0, parseInt(e.target.value, 10) || 0))} 
+              />
+            </label>
+            <label>
+              <span className={labelClass}>Language</span>
+              <select className={fieldClass} value={draft.language} onChange={(e) => update('language', e.target.value)}>
+                {PERSONA_LANGUAGES.map(l => (
+                  <option key={l.code} value={l.code}>{l.label}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <span className={labelClass}>Voice</span>
+              <select className={fieldClass} value={draft.voiceName} onChange={(e) => update('voiceName', e.target.value)}>
+                {PERSONA_VOICES.map(v => (
+                  <option key={v} value={v}>{v}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <label className="block">
+            <span className={labelClass}>Topic brief (optional)</span>
+            <textarea 
+              rows={3} 
+              className={fieldClass} 
+              value={draft.topicBrief} 
+              onChange={(e) => update('topicBrief', e.target.value)} 
+              placeholder="What is this recording about? What should the AI steer towards?"
+            />
+          </label>
+
+          <label className="block">
+            <span className={labelClass}>Questions to cover (optional, one per line)</span>
+            <textarea 
+              rows={4} 
+              className={fieldClass} 
+              value={questionsText} 
+              onChange={(e) => setQuestionsText(e.target.value)} 
+            />
+          </label>
+        </fieldset>
+
+        <div className="flex justify-between items-center pt-2">
+          {!persona.builtIn ? (
+            <button
+              onClick={() => { onDelete(persona.id); onClose(); }}
+              className="text-xs font-semibold text-slate-400 hover:text-red-500 transition"
+            >
+              Delete persona
+            </button>
+          ) : (
+            <span className="text-xs text-slate-400">Built-in personas can be duplicated, not edited.</span>
+          )}
+          <div className="flex gap-2">
+            <button 
+              onClick={onClose}
+              className="bg-white text-slate-600 px-5 py-2 rounded-full font-semibold shadow-md hover:bg-slate-50 transition"
+            >
+              {persona.builtIn ? 'Close' : 'Cancel'}
+            </button>
+            {!persona.builtIn && (
+              <button 
+                onClick={handleSave}
+                disabled={!isValid}
+                className="bg-gradient-to-r from-rose-400 to-orange-400 text-white px-6 py-2 rounded-full font-semibold shadow-md transition disabled:opacity-50"
+              >
+                Save
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
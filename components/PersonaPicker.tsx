@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { InterviewerPersona } from '../types';
+import { createCustomPersona } from '../services/personas';
+import { PersonaEditor } from './PersonaEditor';
+
+interface PersonaPickerProps {
+  personas: InterviewerPersona[];
+  selected: InterviewerPersona;
+  onSelect: (id: string) => void;
+  onSave: (persona: InterviewerPersona) => void;
+  onDelete: (id: string) => void;
+  disabled: boolean;
+}
+
+export const PersonaPicker: React.FC<PersonaPickerProps> = ({ personas, selected, onSelect, onSave, onDelete, disabled }) => {
+  const [editing, setEditing] = useState<InterviewerPersona | null>(null);
+
+  return (
+    <div className="flex items-center gap-1 bg-white/50 backdrop-blur-sm p-1.5 rounded-full shadow-sm border border-white/60">
+      <span className="pl-2 text-xs">🎙️</span>
+      <select
+        value={selected.id}
+        onChange={(e) => onSelect(e.target.value)}
+        disabled={disabled}
+        className="bg-transparent text-xs font-semibold text-slate-600 outline-none cursor-pointer disabled:cursor-not-allowed max-w-[9rem]"
+      >
+        {personas.map(p => (
+          <option key={p.id} value={p.id}>{p.name}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => setEditing(selected)}
+        disabled={disabled}
+        title={selected.builtIn ? 'View persona' : 'Edit persona'}
+        className="px-2 py-1 rounded-full text-xs text-slate-500 hover:bg-white/80 disabled:opacity-50"
+      >
+        ✏️
+      </button>
+      <button
+        onClick={() => setEditing(createCustomPersona(selected))}
+        disabled={disabled}
+        title="New persona based on this one"
+        className="px-2 py-1 rounded-full text-xs font-bold text-slate-500 hover:bg-white/80 disabled:opacity-50"
+      >
+        +
+      </button>
+
+      {editing && (
+        <PersonaEditor 
+          persona={editing}
+          onSave={onSave}
+          onDelete={onDelete}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { ChapterMarker, PostProductionMetadata, SocialCaptionTarget } from '../types';
+import { formatDuration } from '../utils/format';
+
+interface PostProductionPanelProps {
+  metadata: PostProductionMetadata | null;
+  targets: SocialCaptionTarget[];
+  isGenerating: boolean;
+  onGenerate: () => void;
+  onChange: (metadata: PostProductionMetadata) => void;
+  onExport: () => void;
+  onSeek: (seconds: number) => void;
+}
+
+const fieldClass = "w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-sm text-slate-700 outline-none focus:border-rose-300";
+const labelClass = "text-[11px] font-bold uppercase tracking-wide text-slate-400 mb-1 block";
+
+const formatHashtags = (hashtags: string[]) => hashtags.map(h => `#${h}`).join(' ');
+
+const parseHashtags = (value: string) => value.split(/[\s,]+/).map(h => h.replace(/^#/, '')).filter(Boolean);
+
+// Accepts "m:ss", "h:mm:ss" or plain seconds
+const parseTimestamp = (value: string): number | null => {
+  const parts = value.trim().split(':');
+  // Number('') is 0, so an empty field or "1:" would otherwise jump to 0:00
+  if (parts.some(part => part.trim() === '')) return null;
+  const numbers = parts.map(Number);
+  if (numbers.some(n => !Number.isFinite(n) || n < 0)) return null;
+  return numbers.reduce((total, n) => total * 60 + n, 0);
+};
+
+export const PostProductionPanel: React.FC<PostProductionPanelProps> = ({ 
+  metadata, 
+  targets, 
+  isGenerating, 
+  onGenerate, 
+  onChange, 
+  onExport,
+  onSeek 
+}) => {
+  // Typed as free text and only split into tags on blur/Enter, so separators survive typing
+  const hashtagsKey = metadata?.hashtags.join(' ') ?? '';
+  const [hashtagsDraft, setHashtagsDraft] = useState(() => formatHashtags(metadata?.hashtags ?? []));
+
+  useEffect(() => {
+    setHashtagsDraft(formatHashtags(metadata?.hashtags ?? []));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hashtagsKey]);
+
+  if (!metadata) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center gap-3 px-6 text-center">
+        <p className="text-xs text-slate-400">
+          Generate a title, description, chapters, hashtags and captions for {targets.map(t => t.platform).join(', ')}.
+        </p>
+        <button
+          onClick={onGenerate}
+          disabled={isGenerating}
+          className="bg-gradient-to-r from-rose-400 to-orange-400 text-white px-5 py-2 rounded-full text-sm font-semibold shadow-md transition hover:scale-105 disabled:opacity-60 disabled:hover:scale-100"
+        >
+          {isGenerating ? 'Writing...' : '✨ Generate'}
+        </button>
+      </div>
+    );
+  }
+
+  const update = <K extends keyof PostProductionMetadata>(key: K, value: PostProductionMetadata[K]) => {
+    onChange({ ...metadata, [key]: value });
+  };
+
+  const updateChapter = (index: number, patch: Partial<ChapterMarker>) => {
+    update('chapters', metadata.chapters.map((c, i) => i === index ? { ...c, ...patch } : c));
+  };
+
+  const commitHashtags = () => {
+    const hashtags = parseHashtags(hashtagsDraft);
+    setHashtagsDraft(formatHashtags(hashtags));
+    update('hashtags', hashtags);
+  };
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <div className="flex-1 overflow-y-auto scrollbar-hide px-4 py-3 space-y-4">
+        <label className="block">
+          <span className={labelClass}>Title</span>
+          <input className={fieldClass} value={metadata.title} onChange={(e) => update('title', e.target.value)} />
+        </label>
+
+        <label className="block">
+          <span className={labelClass}>Description</span>
+          <textarea rows={3} className={fieldClass} value={metadata.description} onChange={(e) => update('description', e.target.value)} />
+        </label>
+
+        <div>
+          <span className={labelClass}>Chapters</span>
+          <ul className="space-y-1">
+            {metadata.chapters.map((chapter, i) => (
+              <li key={i} className="flex gap-1 items-center">
+                <input
+                  key={chapter.start}
+                  className={`${fieldClass} w-16 tabular-nums`}
+                  defaultValue={formatDuration(chapter.start * 1000)}
+                  onBlur={(e) => {
+                    const start = parseTimestamp(e.target.value);
+                    if (start !== null) updateChapter(i, { start });
+                  }}
+                />
+                <input className={fieldClass} value={chapter.title} onChange={(e) => updateChapter(i, { title: e.target.value })} />
+                <button onClick={() => onSeek(chapter.start)} title="Jump to chapter" className="text-xs text-slate-400 hover:text-sky-500 px-1">▶</button>
+                <button 
+                  onClick={() => update('chapters', metadata.chapters.filter((_, j) => j !== i))} 
+                  title="Remove chapter"
+                  className="text-xs text-slate-300 hover:text-red-500 px-1"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() => update('chapters', [...metadata.chapters, { start: metadata.chapters.at(-1)?.start ?? 0, title: 'New chapter' }])}
+            className="mt-1 text-xs font-semibold text-slate-400 hover:text-rose-500"
+          >
+            + Add chapter
+          </button>
+        </div>
+
+        <label className="block">
+          <span className={labelClass}>Hashtags</span>
+          <input 
+            className={fieldClass} 
+            value={hashtagsDraft} 
+            onChange={(e) => setHashtagsDraft(e.target.value)} 
+            onBlur={commitHashtags}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitHashtags();
+            }}
+          />
+        </label>
+
+        {metadata.captions.map((caption, i) => {
+          const limit = targets.find(t => t.platform === caption.platform)?.maxChars;
+          return (
+            <label key={caption.platform} className="block">
+              <span className={labelClass}>
+                {caption.platform}
+                {limit && <span className={`ml-2 normal-case font-semibold ${caption.text.length > limit ? 'text-red-400' : ''}`}>{caption.text.length}/{limit}</span>}
+              </span>
+              <textarea 
+                rows={3} 
+                className={fieldClass} 
+                value={caption.text} 
+                onChange={(e) => update('captions', metadata.captions.map((c, j) => j === i ? { ...c, text: e.target.value } : c))} 
+              />
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-between items-center px-4 py-2 border-t border-slate-100">
+        <button
+          onClick={onGenerate}
+          disabled={isGenerating}
+          className="text-xs font-semibold text-slate-400 hover:text-rose-500 disabled:opacity-50"
+        >
+          {isGenerating ? 'Writing...' : 'Regenerate'}
+        </button>
+        <button
+          onClick={onExport}
+          className="bg-gradient-to-r from-teal-400 to-emerald-400 text-white px-4 py-1.5 rounded-full text-xs font-semibold shadow-md hover:shadow-emerald-200 transition"
+        >
+          Export JSON
+        </button>
+      </div>
+    </div>
+  );
+};
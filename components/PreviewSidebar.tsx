@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+
+interface PreviewSidebarProps {
+  transcript: React.ReactNode;
+  publish: React.ReactNode;
+}
+
+type SidebarTab = 'transcript' | 'publish';
+
+export const PreviewSidebar: React.FC<PreviewSidebarProps> = ({ transcript, publish }) => {
+  const [tab, setTab] = useState<SidebarTab>('transcript');
+  const tabs: { value: SidebarTab; label: string }[] = [
+    { value: 'transcript', label: 'Transcript' },
+    { value: 'publish', label: 'Publish' },
+  ];
+
+  return (
+    <div className="w-full md:w-80 h-72 md:h-full flex flex-col bg-white/80 backdrop-blur-md rounded-2xl shadow-xl border-4 border-white overflow-hidden">
+      <div className="flex gap-1 p-1.5 border-b border-slate-100">
+        {tabs.map(t => (
+          <button
+            key={t.value}
+            onClick={() => setTab(t.value)}
+            className={`
+              flex-1 py-1 rounded-full text-xs font-semibold transition-all duration-300
+              ${tab === t.value ? 'bg-gradient-to-r from-rose-300 to-pink-300 text-white shadow-sm' : 'text-slate-500 hover:bg-slate-50'}
+            `}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+      {tab === 'transcript' ? transcript : publish}
+    </div>
+  );
+};
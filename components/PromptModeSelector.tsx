@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { PromptMode, TeleprompterScript } from '../types';
+import { ScriptEditor } from './ScriptEditor';
+
+interface PromptModeSelectorProps {
+  selected: PromptMode;
+  onChange: (mode: PromptMode) => void;
+  script: TeleprompterScript;
+  onScriptChange: (script: TeleprompterScript) => void;
+  onError: (msg: string) => void;
+  disabled: boolean;
+}
+
+export const PromptModeSelector: React.FC<PromptModeSelectorProps> = ({ selected, onChange, script, onScriptChange, onError, disabled }) => {
+  const [isEditing, setIsEditing] = useState(false);
+
+  const modes = [
+    { value: PromptMode.INTERVIEWER, label: 'AI', icon: '🤖', hint: 'The AI interviewer improvises questions' },
+    { value: PromptMode.TELEPROMPTER, label: 'Prompter', icon: '📜', hint: 'Your own script scrolls on screen, no AI' },
+    { value: PromptMode.HYBRID, label: 'Hybrid', icon: '🔀', hint: 'Your outline on screen, the AI adds follow-ups' },
+  ];
+
+  return (
+    <div className="flex items-center space-x-1 bg-white/50 backdrop-blur-sm p-1.5 rounded-full shadow-sm border border-white/60">
+      {modes.map((mode) => (
+        <button
+          key={mode.value}
+          onClick={() => onChange(mode.value)}
+          disabled={disabled}
+          title={mode.hint}
+          className={`
+            px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-300 flex items-center gap-1
+            ${selected === mode.value
+              ? 'bg-gradient-to-r from-emerald-300 to-teal-300 text-white shadow-md'
+              : 'text-slate-500 hover:bg-white/80'}
+            ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+          `}
+        >
+          <span>{mode.icon}</span>
+          <span>{mode.label}</span>
+        </button>
+      ))}
+      {selected !== PromptMode.INTERVIEWER && (
+        <button
+          onClick={() => setIsEditing(true)}
+          disabled={disabled}
+          title="Edit script"
+          className="px-2 py-1 rounded-full text-xs text-slate-500 hover:bg-white/80 disabled:opacity-50"
+        >
+          ✏️
+        </button>
+      )}
+
+      {isEditing && (
+        <ScriptEditor
+          script={script}
+          onSave={onScriptChange}
+          onError={onError}
+          onClose={() => setIsEditing(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { FrameFormat, QUALITY_PRESETS, QualityPresetId } from '../types';
+import { estimateBytesPerMinute, getOutputSize } from '../utils/quality';
+import { formatSize } from '../utils/format';
+
+interface QualitySelectorProps {
+  selected: QualityPresetId;
+  onChange: (preset: QualityPresetId) => void;
+  frame: FrameFormat;
+  stream: MediaStream | null; // The camera, to tell when it can't deliver the preset
+  disabled: boolean;
+}
+
+export const QualitySelector: React.FC<QualitySelectorProps> = ({ selected, onChange, frame, stream, disabled }) => {
+  const presets = Object.values(QUALITY_PRESETS);
+
+  // The output is never upscaled past the camera's crop, say so when that kicks in
+  const source = stream?.getVideoTracks()[0]?.getSettings();
+  const wanted = getOutputSize(frame, QUALITY_PRESETS[selected]);
+  const actual = source?.width && source?.height
+    ? getOutputSize(frame, QUALITY_PRESETS[selected], source.width, source.height)
+    : wanted;
+  const isLimited = actual.width < wanted.width;
+
+  return (
+    <div className="flex items-center space-x-1 bg-white/50 backdrop-blur-sm p-1.5 rounded-full shadow-sm border border-white/60">
+      {presets.map((preset) => (
+        <button
+          key={preset.id}
+          onClick={() => onChange(preset.id)}
+          disabled={disabled}
+          title={`${preset.fps} fps, about ${formatSize(estimateBytesPerMinute(preset))} per minute. The camera is asked for the same resolution.`}
+          className={`
+            px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-300
+            ${selected === preset.id 
+              ? 'bg-gradient-to-r from-amber-300 to-rose-300 text-white shadow-md' 
+              : 'text-slate-500 hover:bg-white/80'}
+            ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+          `}
+        >
+          {preset.label}
+        </button>
+      ))}
+      <span className="px-2 text-[10px] font-medium text-slate-400 tabular-nums whitespace-nowrap">
+        ~{formatSize(estimateBytesPerMinute(QUALITY_PRESETS[selected]))}/min
+      </span>
+      {isLimited && (
+        <span 
+          className="pr-2 text-[10px] font-medium text-amber-500 tabular-nums whitespace-nowrap"
+          title="The camera delivers less than this preset, the output isn't upscaled"
+        >
+          Camera limits to {actual.width}×{actual.height}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -1,46 +1,217 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { AspectRatio, ASPECT_RATIO_CONFIGS, VideoConfig } from '../types';
-import { useGeminiInterviewer } from '../hooks/useGeminiInterviewer';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { 
+  BrandKit,
+  DeviceSettings,
+  EffectSettings,
+  FrameFormat,
+  InterviewerConnectionState,
+  InterviewerPersona,
+  InterviewerVoiceMode,
+  PromptMode,
+  QUALITY_PRESETS,
+  QualityPresetId,
+  RecorderCommand,
+  RecordingFormatId, 
+  RecordingResult, 
+  ShortcutAction,
+  TakeContext,
+  TeleprompterScript
+} from '../types';
+import { DEFAULT_QUESTION_FADE_MS, useGeminiInterviewer } from '../hooks/useGeminiInterviewer';
+import { useCanvasCompositor } from '../hooks/useCanvasCompositor';
+import { useCanvasPointer } from '../hooks/useCanvasPointer';
+import { useScreenShare } from '../hooks/useScreenShare';
+import { buildQuestionCues } from '../utils/captions';
+import { buildTranscript } from '../utils/transcript';
+import { createRecordingClock, pauseClock, RecordingClock, resumeClock, toMediaMs } from '../utils/recordingClock';
+import { extensionForMimeType, negotiateRecordingFormat } from '../utils/mediaFormats';
+import { ZOOM_STEP } from '../utils/framing';
+import { getScriptOutline, parseScript } from '../utils/script';
+import { createVoiceCommandMatcher } from '../utils/voiceCommands';
+import { isStackedFrame } from '../utils/screenLayout';
+import { appendChunk, createSession, markSessionStopped, newSession } from '../services/recordingSessions';
+import { buildMediaConstraints } from '../services/devices';
+import { LevelMeter } from './LevelMeter';
+import { Teleprompter } from './Teleprompter';
+import { ScriptCue } from './ScriptCue';
+import { ScreenShareControls } from './ScreenShareControls';
+
+// MediaRecorder hands over a chunk this often, each one is persisted right away
+const CHUNK_TIMESLICE_MS = 1000;
+
+const CONNECTION_BADGES: Record<InterviewerConnectionState, { label: string; dot: string }> = {
+  [InterviewerConnectionState.IDLE]: { label: 'AI Idle', dot: 'bg-gray-300' },
+  [InterviewerConnectionState.CONNECTING]: { label: 'AI Connecting...', dot: 'bg-gray-300 animate-pulse' },
+  [InterviewerConnectionState.LIVE]: { label: 'AI Listening', dot: 'bg-green-400 animate-pulse' },
+  [InterviewerConnectionState.RECONNECTING]: { label: 'AI Reconnecting...', dot: 'bg-amber-400 animate-pulse' },
+  [InterviewerConnectionState.FAILED]: { label: 'AI Offline', dot: 'bg-red-400' },
+  [InterviewerConnectionState.NO_KEY]: { label: 'No API Key', dot: 'bg-red-300' },
+};
 
 interface RecorderProps {
-  aspectRatio: AspectRatio;
+  frame: FrameFormat;
   isRecording: boolean;
-  onRecordingComplete: (blob: Blob) => void;
+  isPaused: boolean;
+  countdown: number | null; // Seconds left before recording starts, drawn on the preview
+  persona: InterviewerPersona;
+  voiceMode: InterviewerVoiceMode;
+  burnInQuestions: boolean; // Render questions onto the canvas so they end up in the file
+  preferredFormat: RecordingFormatId;
+  deviceSettings: DeviceSettings;
+  processedAudio: MediaStream | null; // The mic after the audio chain, null until it runs
+  quality: QualityPresetId;
+  effects: EffectSettings;
+  brandKit: BrandKit | null;
+  promptMode: PromptMode;
+  script: TeleprompterScript;
+  takeContext?: TakeContext;
+  command: RecorderCommand | null; // Latest shortcut or voice command for the recorder itself
+  voiceCommands: boolean;
+  onVoiceCommand: (action: ShortcutAction) => void;
+  onScriptChange: (script: TeleprompterScript) => void;
+  onRecordingComplete: (result: RecordingResult) => void;
+  onRecordingFailed: () => void; // The recorder could not start, nothing is being recorded
   onStreamReady: (stream: MediaStream) => void;
+  onFinishingChange: (finishing: boolean) => void; // The outro card is still being recorded after stop
   onError: (msg: string) => void;
 }
 
 export const Recorder: React.FC<RecorderProps> = ({ 
-  aspectRatio, 
+  frame, 
   isRecording, 
+  isPaused,
+  countdown,
+  persona,
+  voiceMode,
+  burnInQuestions,
+  preferredFormat,
+  deviceSettings,
+  processedAudio,
+  quality,
+  effects,
+  brandKit,
+  promptMode,
+  script,
+  takeContext,
+  command,
+  voiceCommands,
+  onVoiceCommand,
+  onScriptChange,
   onRecordingComplete, 
+  onRecordingFailed,
   onStreamReady,
+  onFinishingChange,
   onError 
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const animationFrameRef = useRef<number>();
   const chunksRef = useRef<Blob[]>([]);
+  const clockRef = useRef<RecordingClock>(createRecordingClock(0));
+  const mixContextRef = useRef<AudioContext | null>(null);
+  // Serializes IndexedDB writes so chunks land after their session and in order
+  const persistQueueRef = useRef<Promise<void>>(Promise.resolve());
   const [stream, setStream] = useState<MediaStream | null>(null);
+  // Bumped to re-acquire the camera after a device disappears
+  const [deviceGeneration, setDeviceGeneration] = useState(0);
+  const screenShare = useScreenShare(onError);
+  const isRecordingRef = useRef(isRecording);
+  isRecordingRef.current = isRecording;
+
+  const scriptBlocks = useMemo(() => parseScript(script.text), [script.text]);
+  const scriptOutline = useMemo(() => getScriptOutline(scriptBlocks), [scriptBlocks]);
+
+  // Everything downstream hears the processed mic, the raw one only as a fallback
+  const micStream = processedAudio ?? stream;
+
+  // "MuseCam, ..." commands, heard through the interviewer's transcription of the speaker
+  const voiceMatcherRef = useRef(createVoiceCommandMatcher());
+  const voiceCommandsRef = useRef(voiceCommands);
+  voiceCommandsRef.current = voiceCommands;
+  const onVoiceCommandRef = useRef(onVoiceCommand);
+  onVoiceCommandRef.current = onVoiceCommand;
+
+  const handleSpeakerText = useCallback((text: string) => {
+    if (!voiceCommandsRef.current) return;
+    const action = voiceMatcherRef.current.feed(text);
+    if (action) onVoiceCommandRef.current(action);
+  }, []);
+
+  useEffect(() => {
+    voiceMatcherRef.current.reset();
+  }, [isRecording]);
 
-  // Gemini Hook
-  const { currentQuestion, setCurrentQuestion, isConnected } = useGeminiInterviewer({ 
-    isActive: isRecording, 
-    audioStream: stream 
+  // Gemini Hook (stays off when the speaker reads their own script)
+  const { 
+    currentQuestion, 
+    setCurrentQuestion, 
+    connectionState, 
+    connectionError, 
+    retry, 
+    questions, 
+    speakerTurns,
+    askNextQuestion,
+    notePoint,
+    getVoiceStream 
+  } = useGeminiInterviewer({ 
+    isActive: isRecording && promptMode !== PromptMode.TELEPROMPTER, 
+    persona,
+    scriptOutline: promptMode === PromptMode.HYBRID ? scriptOutline : undefined,
+    takeContext,
+    isPaused,
+    voiceMode,
+    audioStream: micStream,
+    onSpeakerText: handleSpeakerText
   });
 
+  // Only a connection that gave up goes to the app's error toast, the badge already shows retries
+  useEffect(() => {
+    if (connectionState === InterviewerConnectionState.FAILED && connectionError) onError(connectionError);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [connectionState, connectionError]);
+
+  // The parent re-renders while recording (timer, pause), keep the latest callback
+  // without restarting the recorder effect
+  const onRecordingCompleteRef = useRef(onRecordingComplete);
+  onRecordingCompleteRef.current = onRecordingComplete;
+
+  // recorder.onstop fires after the hook has flushed its last turn, read the latest list
+  const questionsRef = useRef(questions);
+  questionsRef.current = questions;
+  const speakerTurnsRef = useRef(speakerTurns);
+  speakerTurnsRef.current = speakerTurns;
+
+  // Set while the outro card plays out after the user pressed stop
+  const outroStartedAtRef = useRef<number | null>(null);
+  const outroTimerRef = useRef<number | null>(null);
+
   // 1. Initialize Camera
   useEffect(() => {
+    // Tracked locally, the `stream` state is still null in this effect's closure
+    let activeStream: MediaStream | null = null;
+    let cancelled = false;
+
     const initCamera = async () => {
       try {
-        const mediaStream = await navigator.mediaDevices.getUserMedia({
-          video: { 
-            width: { ideal: 1920 },
-            height: { ideal: 1080 },
-            facingMode: "user"
-          },
-          audio: true
+        const mediaStream = await navigator.mediaDevices.getUserMedia(buildMediaConstraints(deviceSettings, QUALITY_PRESETS[quality]));
+
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        activeStream = mediaStream;
+
+        // Unplugged mid-preview: grab whatever is available now. Mid-take the recorder
+        // would restart with the new stream, so just tell the user.
+        mediaStream.getTracks().forEach(track => {
+          track.onended = () => {
+            if (cancelled) return;
+            if (isRecordingRef.current) {
+              onError("A camera or microphone was disconnected during recording.");
+            } else {
+              setDeviceGeneration(g => g + 1);
+            }
+          };
         });
         
         setStream(mediaStream);
@@ -59,72 +230,57 @@ export const Recorder: React.FC<RecorderProps> = ({
     initCamera();
 
     return () => {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
+      cancelled = true;
+      if (activeStream) {
+        activeStream.getTracks().forEach(track => track.stop());
       }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  // 2. Canvas Drawing Loop (Crop & Render)
-  const draw = useCallback(() => {
-    if (!videoRef.current || !canvasRef.current) return;
-    
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) return;
-
-    const config: VideoConfig = ASPECT_RATIO_CONFIGS[aspectRatio];
-    
-    // Set canvas internal resolution
-    if (canvas.width !== config.width || canvas.height !== config.height) {
-        canvas.width = config.width;
-        canvas.height = config.height;
-    }
-
-    // Calculate Crop (Center crop)
-    // Source dimensions
-    const vw = video.videoWidth;
-    const vh = video.videoHeight;
-    const vRatio = vw / vh;
-    const cRatio = config.width / config.height;
-    
-    let sx, sy, sWidth, sHeight;
-
-    if (vRatio > cRatio) {
-        // Video is wider than canvas -> crop width
-        sHeight = vh;
-        sWidth = vh * cRatio;
-        sy = 0;
-        sx = (vw - sWidth) / 2;
-    } else {
-        // Video is taller than canvas -> crop height
-        sWidth = vw;
-        sHeight = vw / cRatio;
-        sx = 0;
-        sy = (vh - sHeight) / 2;
-    }
+  }, [deviceSettings.cameraId, deviceSettings.micId, quality, deviceGeneration]);
 
-    // Draw video frame
-    ctx.drawImage(video, sx, sy, sWidth, sHeight, 0, 0, config.width, config.height);
-
-    // Apply soft filter (optional, macaron vibe)
-    // ctx.fillStyle = 'rgba(255, 230, 240, 0.05)'; // subtle rose tint
-    // ctx.fillRect(0,0, config.width, config.height);
+  // 2. Canvas compositing, and reframing by hand on it
+  const {
+    outputSize,
+    layoutRectsRef,
+    autoFrame,
+    setAutoFrame,
+    zoom,
+    applyZoom,
+    panCamera,
+    resetFraming
+  } = useCanvasCompositor({
+    videoRef,
+    canvasRef,
+    stream,
+    frame,
+    quality,
+    effects,
+    brandKit,
+    burnInQuestions,
+    question: currentQuestion,
+    countdown,
+    screenVideoRef: screenShare.screenVideoRef,
+    screenLayoutRef: screenShare.layoutRef,
+    isRecordingRef,
+    outroStartedAtRef,
+    clockRef
+  });
 
-    animationFrameRef.current = requestAnimationFrame(draw);
-  }, [aspectRatio]);
+  // Grabbing the shot turns auto-frame off
+  const pointerHandlers = useCanvasPointer({
+    layoutRectsRef,
+    screenLayoutRef: screenShare.layoutRef,
+    onScreenLayoutChange: screenShare.updateLayout,
+    onPan: panCamera,
+    onZoom: applyZoom,
+    onGrab: () => setAutoFrame(false)
+  });
 
-  useEffect(() => {
-    if (stream) {
-       animationFrameRef.current = requestAnimationFrame(draw);
-    }
-    return () => {
-      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
-    };
-  }, [draw, stream]);
+  const capturePoster = (): Promise<Blob | null> => {
+    const canvas = canvasRef.current;
+    if (!canvas) return Promise.resolve(null);
+    return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+  };
 
   // 3. Handle Recording Logic
   useEffect(() => {
@@ -132,47 +288,186 @@ export const Recorder: React.FC<RecorderProps> = ({
         // Start Recording
         if (!canvasRef.current) return;
         
-        const canvasStream = canvasRef.current.captureStream(30); // 30 FPS
-        // Add audio track from original stream
-        if (stream) {
-            const audioTracks = stream.getAudioTracks();
-            if (audioTracks.length > 0) {
+        const preset = QUALITY_PRESETS[quality];
+        const canvasStream = canvasRef.current.captureStream(preset.fps);
+        // Add the (processed) mic track
+        if (micStream) {
+            const audioTracks = micStream.getAudioTracks();
+            if (audioTracks.length > 0 && voiceMode === InterviewerVoiceMode.RECORDED) {
+                // Mix the interviewer's voice with the mic into a single recorded track
+                const mixCtx = new AudioContext();
+                const mixDestination = mixCtx.createMediaStreamDestination();
+                mixCtx.createMediaStreamSource(new MediaStream([audioTracks[0]])).connect(mixDestination);
+                mixCtx.createMediaStreamSource(getVoiceStream()).connect(mixDestination);
+                mixContextRef.current = mixCtx;
+                canvasStream.addTrack(mixDestination.stream.getAudioTracks()[0]);
+            } else if (audioTracks.length > 0) {
                 canvasStream.addTrack(audioTracks[0]);
             }
         }
 
-        const recorder = new MediaRecorder(canvasStream, {
-            mimeType: 'video/webm;codecs=vp9'
-        });
+        const negotiated = negotiateRecordingFormat(preferredFormat);
+        // Nothing gets recorded, undo the audio mix and let the parent leave the recording state
+        const failToStart = (err: unknown) => {
+            console.error(err);
+            mixContextRef.current?.close();
+            mixContextRef.current = null;
+            mediaRecorderRef.current = null;
+            onError("Recording is not supported in this browser.");
+            onRecordingFailed();
+        };
+
+        let recorder: MediaRecorder;
+        try {
+            recorder = new MediaRecorder(canvasStream, {
+                ...(negotiated.mimeType ? { mimeType: negotiated.mimeType } : {}),
+                videoBitsPerSecond: preset.videoBitsPerSecond,
+                audioBitsPerSecond: preset.audioBitsPerSecond,
+            });
+        } catch (err) {
+            failToStart(err);
+            return;
+        }
 
         mediaRecorderRef.current = recorder;
         chunksRef.current = [];
+        let session = newSession(frame.label, negotiated.mimeType || 'video/webm', 'webm');
+        let seq = 0;
+        let posterPromise: Promise<Blob | null> = Promise.resolve(null);
+
+        const persist = (task: () => Promise<void>) => {
+            persistQueueRef.current = persistQueueRef.current
+                .then(task)
+                .catch(err => console.error("Failed to persist recording chunk:", err));
+        };
 
         recorder.ondataavailable = (e) => {
             if (e.data.size > 0) {
+                // Grab the poster a second in, the first frames are often still black
+                if (seq === 0) posterPromise = capturePoster();
+
                 chunksRef.current.push(e.data);
+                const chunkSeq = seq++;
+                persist(() => appendChunk(session.id, chunkSeq, e.data));
             }
         };
 
-        recorder.onstop = () => {
-            const blob = new Blob(chunksRef.current, { type: 'video/mp4' });
-            onRecordingComplete(blob);
+        recorder.onstop = async () => {
+            if (outroTimerRef.current !== null) onFinishingChange(false);
+            outroStartedAtRef.current = null;
+            outroTimerRef.current = null;
+            persist(() => markSessionStopped(session.id));
+            mixContextRef.current?.close();
+            mixContextRef.current = null;
+
+            // Label the file with what the recorder really produced, not what we asked for
+            const mimeType = recorder.mimeType || negotiated.mimeType || 'video/webm';
+            const blob = new Blob(chunksRef.current, { type: mimeType });
+            const endedAt = Date.now();
+            const clock = clockRef.current;
+            resumeClock(clock, endedAt); // Stopping while paused closes the pause
+            const cues = buildQuestionCues(
+                questionsRef.current, 
+                clock, 
+                endedAt, 
+                DEFAULT_QUESTION_FADE_MS
+            );
+            const transcript = buildTranscript(questionsRef.current, speakerTurnsRef.current, clock);
+            const durationMs = toMediaMs(clock, endedAt);
+            const poster = await posterPromise;
+            onRecordingCompleteRef.current({
+                blob,
+                mimeType,
+                extension: extensionForMimeType(mimeType),
+                fallbackFrom: negotiated.isFallback ? preferredFormat : null,
+                questionCues: cues,
+                sessionId: session.id,
+                durationMs,
+                poster,
+                transcript,
+            });
             setCurrentQuestion(""); // Clear question on stop
         };
 
-        recorder.start();
+        try {
+            recorder.start(CHUNK_TIMESLICE_MS);
+        } catch (err) {
+            // NotSupportedError or InvalidStateError, e.g. a track the encoder can't take
+            failToStart(err);
+            return;
+        }
+        clockRef.current = createRecordingClock(Date.now());
+
+        // The real mime type is only known once the recorder has started
+        const startedMimeType = recorder.mimeType || session.mimeType;
+        session = { ...session, mimeType: startedMimeType, extension: extensionForMimeType(startedMimeType) };
+        const startedSession = session;
+        persist(() => createSession(startedSession));
 
     } else {
         // Stop Recording
-        if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-            mediaRecorderRef.current.stop();
+        const recorder = mediaRecorderRef.current;
+        if (recorder && recorder.state !== 'inactive' && outroTimerRef.current === null) {
+            const outro = brandKit?.outro;
+            if (outro?.enabled) {
+                // Play the outro card into the file, then stop
+                if (recorder.state === 'paused') {
+                    recorder.resume();
+                    resumeClock(clockRef.current, Date.now());
+                }
+                outroStartedAtRef.current = performance.now();
+                onFinishingChange(true);
+                outroTimerRef.current = window.setTimeout(() => recorder.stop(), outro.durationSec * 1000);
+            } else {
+                recorder.stop();
+            }
         }
     }
-  }, [isRecording, stream, onRecordingComplete, setCurrentQuestion]);
+    // preferredFormat, quality, voiceMode and the mic are only read when a recording starts
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isRecording, stream, setCurrentQuestion]);
+
+  // 4. Pause / Resume keeps writing into the same file
+  useEffect(() => {
+    const recorder = mediaRecorderRef.current;
+    if (!isRecording || !recorder) return;
+
+    if (isPaused && recorder.state === 'recording') {
+        recorder.pause();
+        pauseClock(clockRef.current, Date.now());
+    } else if (!isPaused && recorder.state === 'paused') {
+        recorder.resume();
+        resumeClock(clockRef.current, Date.now());
+    }
+  }, [isPaused, isRecording]);
 
   // Handle manual clearing of questions (if we wanted to close it via UI)
   const handleCloseQuestion = () => setCurrentQuestion("");
 
+  // Hybrid steps through the speaker's own outline, the AI modes ask for a new question
+  const [cueAdvance, setCueAdvance] = useState(0);
+  // A command sent before this Recorder mounted (e.g. before a preview) is not replayed
+  const handledCommandIdRef = useRef(command?.id);
+  useEffect(() => {
+    if (!command || command.id === handledCommandIdRef.current) return;
+    handledCommandIdRef.current = command.id;
+    if (command.action === ShortcutAction.DISMISS_QUESTION) {
+      handleCloseQuestion();
+    } else if (command.action === ShortcutAction.NEXT_PROMPT) {
+      if (promptMode === PromptMode.HYBRID) {
+        setCueAdvance(n => n + 1);
+      } else if (promptMode === PromptMode.INTERVIEWER && isRecording) {
+        askNextQuestion();
+      }
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [command?.id]);
+
+  // The AI follows along as the speaker moves through their outline
+  const handleCueIndexChange = (index: number) => {
+    if (isRecording && scriptOutline[index]) notePoint(scriptOutline[index]);
+  };
+
   return (
     <div className="relative w-full h-full flex items-center justify-center overflow-hidden bg-slate-50 rounded-3xl shadow-inner border-4 border-white">
         {/* Hidden Source Video */}
@@ -182,30 +477,64 @@ export const Recorder: React.FC<RecorderProps> = ({
             playsInline 
             muted // Mute local playback to avoid feedback
         />
+        <video 
+            ref={screenShare.screenVideoRef} 
+            className="absolute opacity-0 pointer-events-none" 
+            playsInline 
+            muted
+        />
 
         {/* The Output Canvas */}
         <canvas 
             ref={canvasRef}
-            className="block max-w-full max-h-full object-contain rounded-xl shadow-lg transition-all duration-500 ease-in-out"
+            {...pointerHandlers}
+            className="block max-w-full max-h-full object-contain rounded-xl shadow-lg transition-all duration-500 ease-in-out touch-none cursor-grab active:cursor-grabbing"
             style={{
-                aspectRatio: `${ASPECT_RATIO_CONFIGS[aspectRatio].width} / ${ASPECT_RATIO_CONFIGS[aspectRatio].height}`
+                aspectRatio: `${frame.width} / ${frame.height}`
             }}
         />
 
+        {/* Script on screen, never part of the recording */}
+        {stream && promptMode === PromptMode.TELEPROMPTER && (
+            <Teleprompter 
+                blocks={scriptBlocks}
+                speed={script.speed}
+                fontSize={script.fontSize}
+                isRunning={isRecording && !isPaused}
+                resetKey={isRecording}
+                onSpeedChange={(speed) => onScriptChange({ ...script, speed })}
+            />
+        )}
+        {stream && promptMode === PromptMode.HYBRID && (
+            <ScriptCue 
+                outline={scriptOutline} 
+                resetKey={isRecording} 
+                advanceKey={cueAdvance} 
+                onIndexChange={handleCueIndexChange} 
+            />
+        )}
+
         {/* AI Overlay Layer */}
-        {isRecording && (
+        {isRecording && promptMode !== PromptMode.TELEPROMPTER && (
           <div className="absolute inset-0 pointer-events-none flex flex-col items-center justify-end pb-20 px-6">
              {/* Connection Status Indicator */}
-             <div className="absolute top-4 right-4 bg-white/80 backdrop-blur-md px-3 py-1 rounded-full text-xs font-bold text-slate-500 shadow-sm flex items-center gap-2">
-                 <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-400 animate-pulse' : 'bg-gray-300'}`}></div>
-                 {isConnected ? 'AI Listening' : 'AI Connecting...'}
+             <div className="absolute top-4 right-4 bg-white/80 backdrop-blur-md px-3 py-1 rounded-full text-xs font-bold text-slate-500 shadow-sm flex items-center gap-2 pointer-events-auto">
+                 <div className={`w-2 h-2 rounded-full ${CONNECTION_BADGES[connectionState].dot} ${isPaused ? 'opacity-40' : ''}`}></div>
+                 {connectionState === InterviewerConnectionState.LIVE && isPaused 
+                    ? 'AI Paused' 
+                    : CONNECTION_BADGES[connectionState].label}
+                 {connectionState === InterviewerConnectionState.FAILED && (
+                    <button onClick={retry} className="ml-1 text-rose-500 hover:text-rose-600 underline">
+                        Retry
+                    </button>
+                 )}
              </div>
 
-             {/* Question Bubble */}
+             {/* Question Bubble (the canvas draws its own when burning in) */}
              <div 
                className={`
                   transition-all duration-700 ease-out transform origin-bottom
-                  ${currentQuestion ? 'translate-y-0 opacity-100 scale-100' : 'translate-y-10 opacity-0 scale-95'}
+                  ${currentQuestion && !burnInQuestions ? 'translate-y-0 opacity-100 scale-100' : 'translate-y-10 opacity-0 scale-95'}
                   bg-white/90 backdrop-blur-lg border border-white/50
                   p-6 rounded-2xl shadow-xl max-w-md text-center
                `}
@@ -222,6 +551,50 @@ export const Recorder: React.FC<RecorderProps> = ({
           </div>
         )}
 
+        {/* Framing controls, usable before and during the take */}
+        {stream && (
+            <div className="absolute top-4 left-4 z-10 bg-white/80 backdrop-blur-md p-1 rounded-full shadow-sm flex items-center gap-1 text-xs font-bold text-slate-500">
+                <button
+                    onClick={() => setAutoFrame(on => !on)}
+                    title="Keep the speaker framed automatically (on-device)"
+                    className={`px-2.5 py-1 rounded-full transition ${autoFrame ? 'bg-gradient-to-r from-teal-300 to-sky-300 text-white' : 'hover:bg-white'}`}
+                >
+                    🎯 Auto
+                </button>
+                <button onClick={() => applyZoom(1 / ZOOM_STEP)} title="Zoom out" className="w-6 h-6 rounded-full hover:bg-white">−</button>
+                <span className="w-9 text-center tabular-nums">{Math.round(zoom * 100)}%</span>
+                <button onClick={() => applyZoom(ZOOM_STEP)} title="Zoom in" className="w-6 h-6 rounded-full hover:bg-white">+</button>
+                <button onClick={resetFraming} title="Reset framing" className="w-6 h-6 rounded-full hover:bg-white">⟲</button>
+            </div>
+        )}
+
+        {/* Screen share layouts, switchable mid-take */}
+        {stream && (
+            <div className="absolute bottom-4 left-4 z-10">
+                <ScreenShareControls 
+                    isSharing={screenShare.isSharing}
+                    isStacked={!!outputSize && isStackedFrame(outputSize)}
+                    settings={screenShare.layout}
+                    onChange={screenShare.updateLayout}
+                    onStart={screenShare.startScreenShare}
+                    onStop={screenShare.stopScreenShare}
+                />
+            </div>
+        )}
+
+        {/* Mic check before the take */}
+        {stream && !isRecording && (
+            <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-white/80 backdrop-blur-md px-3 py-2 rounded-full shadow-sm flex items-center gap-2">
+                <span className="text-xs">🎤</span>
+                <LevelMeter stream={micStream} className="w-24" />
+                {outputSize && (
+                    <span className="text-[10px] font-medium text-slate-400 tabular-nums">
+                        {outputSize.width}×{outputSize.height}
+                    </span>
+                )}
+            </div>
+        )}
+
         {!stream && (
             <div className="absolute inset-0 flex items-center justify-center bg-gray-100 text-gray-400 animate-pulse">
                 <span>Loading Camera...</span>
@@ -0,0 +1,48 @@
+import React from 'react';
+import { RecordingSession } from '../types';
+import { formatDuration, formatSize } from '../utils/format';
+
+interface RecoveryBannerProps {
+  sessions: RecordingSession[];
+  busySessionId: string | null;
+  onRecover: (session: RecordingSession) => void;
+  onDiscard: (session: RecordingSession) => void;
+}
+
+export const RecoveryBanner: React.FC<RecoveryBannerProps> = ({ sessions, busySessionId, onRecover, onDiscard }) => {
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-4xl mb-4 bg-amber-50/90 border border-amber-200 rounded-2xl shadow-sm px-4 py-3">
+      <p className="text-sm font-semibold text-amber-700 mb-2">
+        {sessions.length === 1 ? 'We found a recording that was never saved.' : `We found ${sessions.length} recordings that were never saved.`}
+      </p>
+      <ul className="space-y-2">
+        {sessions.map((session) => (
+          <li key={session.id} className="flex items-center justify-between gap-3 text-xs text-slate-600">
+            <span>
+              {new Date(session.startedAt).toLocaleString()} · {formatDuration(session.updatedAt - session.startedAt)} · {formatSize(session.byteSize)}
+              {session.status === 'recording' && <span className="ml-2 text-amber-600 font-semibold">interrupted</span>}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onDiscard(session)}
+                disabled={busySessionId === session.id}
+                className="px-3 py-1 rounded-full bg-white text-slate-500 font-semibold shadow-sm hover:bg-slate-50 transition disabled:opacity-50"
+              >
+                Discard
+              </button>
+              <button
+                onClick={() => onRecover(session)}
+                disabled={busySessionId === session.id}
+                className="px-3 py-1 rounded-full bg-gradient-to-r from-teal-400 to-emerald-400 text-white font-semibold shadow-sm hover:shadow-emerald-200 transition disabled:opacity-50"
+              >
+                {busySessionId === session.id ? 'Rebuilding...' : `Download ${session.extension.toUpperCase()}`}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { SCREEN_LAYOUTS, ScreenLayout, ScreenLayoutSettings } from '../types';
+import { clampBubbleSize, clampSplitRatio } from '../utils/screenLayout';
+
+interface ScreenShareControlsProps {
+  isSharing: boolean;
+  isStacked: boolean; // Split goes top/bottom on tall frames
+  settings: ScreenLayoutSettings;
+  onChange: (patch: Partial<ScreenLayoutSettings>) => void;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+const BUBBLE_STEP = 0.05;
+const SPLIT_STEP = 0.05;
+
+// Screen share toolbar on the recorder, usable before and during the take
+export const ScreenShareControls: React.FC<ScreenShareControlsProps> = ({ isSharing, isStacked, settings, onChange, onStart, onStop }) => {
+  if (!isSharing) {
+    return (
+      <button
+        onClick={onStart}
+        title="Show a screen, window or tab next to the camera"
+        className="bg-white/80 backdrop-blur-md px-3 py-1.5 rounded-full shadow-sm text-xs font-bold text-slate-500 hover:bg-white transition"
+      >
+        🖥 Share screen
+      </button>
+    );
+  }
+
+  const stepButton = "w-6 h-6 rounded-full hover:bg-white";
+
+  return (
+    <div className="bg-white/80 backdrop-blur-md p-1 rounded-full shadow-sm flex items-center gap-1 text-xs font-bold text-slate-500">
+      {Object.values(ScreenLayout).map(layout => (
+        <button
+          key={layout}
+          onClick={() => onChange({ layout })}
+          title={SCREEN_LAYOUTS[layout].label}
+          className={`px-2 py-1 rounded-full transition ${settings.layout === layout ? 'bg-gradient-to-r from-sky-300 to-violet-300 text-white' : 'hover:bg-white'}`}
+        >
+          {SCREEN_LAYOUTS[layout].icon}
+        </button>
+      ))}
+
+      {settings.layout === ScreenLayout.BUBBLE && (
+        <>
+          <span className="w-px h-4 bg-slate-200 mx-1" />
+          <button onClick={() => onChange({ bubbleSize: clampBubbleSize(settings.bubbleSize - BUBBLE_STEP) })} title="Smaller bubble" className={stepButton}>−</button>
+          <button onClick={() => onChange({ bubbleSize: clampBubbleSize(settings.bubbleSize + BUBBLE_STEP) })} title="Bigger bubble" className={stepButton}>+</button>
+          <button onClick={() => onChange({ bubbleCenter: null })} title="Back to the corner (or drag the bubble)" className={stepButton}>↘</button>
+        </>
+      )}
+
+      {settings.layout === ScreenLayout.SPLIT && (
+        <>
+          <span className="w-px h-4 bg-slate-200 mx-1" />
+          <button onClick={() => onChange({ splitRatio: clampSplitRatio(settings.splitRatio - SPLIT_STEP) })} title="Less screen" className={stepButton}>−</button>
+          <span className="w-8 text-center tabular-nums">{Math.round(settings.splitRatio * 100)}%</span>
+          <button onClick={() => onChange({ splitRatio: clampSplitRatio(settings.splitRatio + SPLIT_STEP) })} title="More screen" className={stepButton}>+</button>
+          <button onClick={() => onChange({ cameraFirst: !settings.cameraFirst })} title="Swap camera and screen" className={stepButton}>
+            {isStacked ? '⇅' : '⇄'}
+          </button>
+        </>
+      )}
+
+      <span className="w-px h-4 bg-slate-200 mx-1" />
+      <button onClick={onStop} title="Stop sharing" className="px-2 py-1 rounded-full text-rose-500 hover:bg-rose-50">✕</button>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { isTypingTarget } from '../utils/keyboard';
+
+interface ScriptCueProps {
+  outline: string[];
+  resetKey: unknown; // Back to the first point whenever this changes
+  advanceKey: number; // Moves to the next point whenever this changes (shortcut or voice command)
+  onIndexChange?: (index: number) => void;
+}
+
+// Hybrid mode: the speaker's current outline point, stepped through with the arrow keys
+export const ScriptCue: React.FC<ScriptCueProps> = ({ outline, resetKey, advanceKey, onIndexChange }) => {
+  const [index, setIndex] = useState(0);
+  const advanceKeyRef = useRef(advanceKey);
+  const onIndexChangeRef = useRef(onIndexChange);
+  onIndexChangeRef.current = onIndexChange;
+
+  useEffect(() => {
+    setIndex(0);
+  }, [resetKey]);
+
+  useEffect(() => {
+    if (advanceKey === advanceKeyRef.current) return;
+    advanceKeyRef.current = advanceKey;
+    setIndex(i => Math.min(outline.length - 1, i + 1));
+  }, [advanceKey, outline.length]);
+
+  useEffect(() => {
+    onIndexChangeRef.current?.(index);
+  }, [index]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      if (e.key === 'ArrowRight') setIndex(i => Math.min(outline.length - 1, i + 1));
+      if (e.key === 'ArrowLeft') setIndex(i => Math.max(0, i - 1));
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [outline.length]);
+
+  if (outline.length === 0) return null;
+  const current = outline[Math.min(index, outline.length - 1)];
+  const next = outline[index + 1];
+
+  return (
+    <div className="absolute top-14 inset-x-0 z-10 flex justify-center px-6 pointer-events-none">
+      <div className="max-w-md w-full bg-slate-900/60 backdrop-blur-sm rounded-2xl px-5 py-3 text-white shadow-lg pointer-events-auto">
+        <div className="flex justify-between text-[10px] font-bold text-white/60 mb-1">
+          <span>POINT {index + 1} / {outline.length}</span>
+          <span>← → to move</span>
+        </div>
+        <p className="text-lg font-bold leading-snug">{current}</p>
+        {next && <p className="mt-1 text-xs text-white/60 truncate">Next: {next}</p>}
+      </div>
+    </div>
+  );
+};
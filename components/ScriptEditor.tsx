@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { TeleprompterScript } from '../types';
+import { getScriptOutline, parseScript } from '../utils/script';
+
+interface ScriptEditorProps {
+  script: TeleprompterScript;
+  onSave: (script: TeleprompterScript) => void;
+  onError: (msg: string) => void;
+  onClose: () => void;
+}
+
+const fieldClass = "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 outline-none focus:border-rose-300";
+const labelClass = "text-xs font-semibold text-slate-500 mb-1 flex justify-between";
+
+export const ScriptEditor: React.FC<ScriptEditorProps> = ({ script, onSave, onError, onClose }) => {
+  const [draft, setDraft] = useState<TeleprompterScript>(script);
+  const outline = getScriptOutline(parseScript(draft.text));
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const text = await file.text();
+      setDraft(prev => ({ ...prev, text }));
+    } catch (err) {
+      console.error(err);
+      onError("Could not read that file.");
+    }
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto scrollbar-hide bg-white rounded-3xl shadow-2xl p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-slate-700">Script</h2>
+          <label className="px-3 py-1.5 rounded-full text-xs font-semibold bg-slate-100 text-slate-600 hover:bg-slate-200 cursor-pointer">
+            Import .txt / .md
+            <input type="file" accept=".txt,.md,.markdown,text/plain,text/markdown" className="hidden" onChange={(e) => handleImport(e.target.files?.[0])} />
+          </label>
+        </div>
+
+        <label className="block">
+          <span className={labelClass}>
+            <span>Plain text or Markdown</span>
+            <span className="text-slate-400">{outline.length} points</span>
+          </span>
+          <textarea
+            rows={12}
+            className={`${fieldClass} font-mono text-xs`}
+            value={draft.text}
+            onChange={(e) => setDraft(prev => ({ ...prev, text: e.target.value }))}
+            placeholder={"# Intro\n- Who I am and what I do\n- Why this product exists\n\n# Demo\n- Show the dashboard"}
+          />
+        </label>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label>
+            <span className={labelClass}>
+              <span>Scroll speed</span>
+              <span className="tabular-nums text-slate-400">{draft.speed}</span>
+            </span>
+            <input
+              type="range"
+              min={1}
+              max={10}
+              step={1}
+              value={draft.speed}
+              onChange={(e) => setDraft(prev => ({ ...prev, speed: parseInt(e.target.value, 10) }))}
+              className="w-full accent-rose-400"
+            />
+          </label>
+          <label>
+            <span className={labelClass}>
+              <span>Text size</span>
+              <span className="tabular-nums text-slate-400">{draft.fontSize}px</span>
+            </span>
+            <input
+              type="range"
+              min={18}
+              max={56}
+              step={2}
+              value={draft.fontSize}
+              onChange={(e) => setDraft(prev => ({ ...prev, fontSize: parseInt(e.target.value, 10) }))}
+              className="w-full accent-rose-400"
+            />
+          </label>
+        </div>
+
+        <p className="text-xs text-slate-400">
+          Teleprompter: Space holds the scroll, ↑ ↓ change the speed. Hybrid: ← → step through the points while the AI adds follow-ups.
+        </p>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <button
+            onClick={onClose}
+            className="bg-white text-slate-600 px-5 py-2 rounded-full font-semibold shadow-md hover:bg-slate-50 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="bg-gradient-to-r from-rose-400 to-orange-400 text-white px-6 py-2 rounded-full font-semibold shadow-md transition"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { ShootSettings, TakeCarryOver } from '../types';
+import { COUNTDOWN_OPTIONS } from '../services/shoots';
+
+interface ShootBarProps {
+  takeCount: number;
+  settings: ShootSettings;
+  onChange: (patch: Partial<ShootSettings>) => void;
+  onNewShoot: () => void;
+}
+
+const CARRY_OVER_OPTIONS = [
+  { value: TakeCarryOver.REPEAT, label: 'Same question', icon: '🔁', hint: 'The AI opens the next take with the last question again' },
+  { value: TakeCarryOver.CONTINUE, label: 'Move on', icon: '⏭', hint: 'The AI skips what the previous take already covered' },
+  { value: TakeCarryOver.FRESH, label: 'Fresh', icon: '✨', hint: 'The AI starts over as if nothing was recorded' },
+];
+
+const pillClass = (isSelected: boolean) => `
+  px-2.5 py-1 rounded-full text-xs font-semibold transition-all duration-300 flex items-center gap-1
+  ${isSelected
+    ? 'bg-gradient-to-r from-violet-300 to-rose-300 text-white shadow-md'
+    : 'text-slate-500 hover:bg-white/80'}
+`;
+
+// Session controls under the camera: countdown, how the next take picks up, and starting over
+export const ShootBar: React.FC<ShootBarProps> = ({ takeCount, settings, onChange, onNewShoot }) => {
+  return (
+    <div className="mt-3 flex flex-wrap justify-center items-center gap-2 text-xs">
+      <div className="flex items-center gap-1 bg-white/50 backdrop-blur-sm p-1 rounded-full shadow-sm border border-white/60">
+        <span className="pl-2 pr-1 text-slate-400 font-semibold" title="Countdown before recording starts">⏱</span>
+        {COUNTDOWN_OPTIONS.map(sec => (
+          <button
+            key={sec}
+            onClick={() => onChange({ countdownSec: sec })}
+            className={pillClass(settings.countdownSec === sec)}
+          >
+            {sec === 0 ? 'Off' : `${sec}s`}
+          </button>
+        ))}
+      </div>
+
+      {takeCount > 0 && (
+        <>
+          <div className="flex items-center gap-1 bg-white/50 backdrop-blur-sm p-1 rounded-full shadow-sm border border-white/60">
+            <span className="pl-2 pr-1 text-slate-400 font-semibold">Take {takeCount + 1}</span>
+            {CARRY_OVER_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => onChange({ carryOver: option.value })}
+                title={option.hint}
+                className={pillClass(settings.carryOver === option.value)}
+              >
+                <span>{option.icon}</span>
+                <span>{option.label}</span>
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onNewShoot}
+            title={`Close this session of ${takeCount} take${takeCount === 1 ? '' : 's'}, they stay in the library`}
+            className="px-3 py-1.5 rounded-full font-semibold bg-white/50 backdrop-blur-sm text-slate-500 hover:bg-white/80 shadow-sm border border-white/60"
+          >
+            New session
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { SHORTCUT_ACTIONS, ShortcutAction, ShortcutSettings } from '../types';
+import { DEFAULT_SHORTCUT_SETTINGS } from '../services/shortcuts';
+import { formatShortcut, toShortcut, validateShortcut } from '../utils/shortcuts';
+
+interface ShortcutsEditorProps {
+  settings: ShortcutSettings;
+  onSave: (settings: ShortcutSettings) => void;
+  onClose: () => void;
+}
+
+export const ShortcutsEditor: React.FC<ShortcutsEditorProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ShortcutSettings>(settings);
+  const [listeningFor, setListeningFor] = useState<ShortcutAction | null>(null);
+  const [problem, setProblem] = useState<string | null>(null);
+
+  // The next key pressed on the focused button becomes the binding, Escape alone cancels
+  const handleCapture = (action: ShortcutAction, e: React.KeyboardEvent) => {
+    if (listeningFor !== action) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const shortcut = toShortcut(e);
+    if (!shortcut) return; // Just a modifier so far
+    if (shortcut === 'Escape' && draft.bindings[action] !== 'Escape') {
+      setListeningFor(null);
+      setProblem(null);
+      return;
+    }
+    const reason = validateShortcut(draft, action, shortcut);
+    if (reason) {
+      setProblem(`${formatShortcut(shortcut)}: ${reason}`);
+      return;
+    }
+    setDraft(prev => ({ ...prev, bindings: { ...prev.bindings, [action]: shortcut } }));
+    setListeningFor(null);
+    setProblem(null);
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-[90vh] overflow-y-auto scrollbar-hide bg-white rounded-3xl shadow-2xl p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-bold text-slate-700">Shortcuts</h2>
+
+        <div className="space-y-2">
+          {(Object.keys(SHORTCUT_ACTIONS) as ShortcutAction[]).map(action => (
+            <div key={action} className="flex items-center justify-between gap-3">
+              <span className="text-sm text-slate-600">{SHORTCUT_ACTIONS[action].label}</span>
+              <button
+                onClick={() => { setListeningFor(action); setProblem(null); }}
+                onKeyDown={(e) => handleCapture(action, e)}
+                onBlur={() => setListeningFor(prev => prev === action ? null : prev)}
+                className={`
+                  min-w-[6rem] px-3 py-1.5 rounded-lg text-xs font-bold font-mono border transition
+                  ${listeningFor === action
+                    ? 'border-rose-300 bg-rose-50 text-rose-500 animate-pulse'
+                    : 'border-slate-200 bg-slate-50 text-slate-600 hover:border-slate-300'}
+                `}
+              >
+                {listeningFor === action ? 'Press a key…' : formatShortcut(draft.bindings[action])}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {problem && <p className="text-xs font-semibold text-red-500">{problem}</p>}
+
+        <label className="flex items-start gap-2 text-xs font-semibold text-slate-500 cursor-pointer pt-2 border-t border-slate-100">
+          <input
+            type="checkbox"
+            checked={draft.voiceCommands}
+            onChange={(e) => setDraft(prev => ({ ...prev, voiceCommands: e.target.checked }))}
+            className="accent-rose-400 mt-0.5"
+          />
+          <span>
+            Voice commands while the AI is listening: "MuseCam, next question", "MuseCam, dismiss", "MuseCam, stop".
+            <span className="block font-normal text-slate-400">The command itself is recorded too, trim it out afterwards.</span>
+          </span>
+        </label>
+
+        <div className="flex justify-between items-center pt-2">
+          <button
+            onClick={() => { setDraft(DEFAULT_SHORTCUT_SETTINGS); setProblem(null); }}
+            className="text-xs font-semibold text-slate-400 hover:text-slate-600 transition"
+          >
+            Reset to defaults
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="bg-white text-slate-600 px-5 py-2 rounded-full font-semibold shadow-md hover:bg-slate-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="bg-gradient-to-r from-rose-400 to-orange-400 text-white px-6 py-2 rounded-full font-semibold shadow-md transition"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
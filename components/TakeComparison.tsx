@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LibraryTake } from '../types';
+import { getTakeMedia } from '../services/library';
+import { formatDuration } from '../utils/format';
+
+interface TakeComparisonProps {
+  takes: LibraryTake[]; // The shoot, oldest first
+  initialIds: [string, string];
+  onKeeper: (id: string | null) => void;
+  onError: (msg: string) => void;
+  onClose: () => void;
+}
+
+// Two takes of the same shoot played in sync, to pick the one worth keeping
+export const TakeComparison: React.FC<TakeComparisonProps> = ({ takes, initialIds, onKeeper, onError, onClose }) => {
+  const [ids, setIds] = useState<[string, string]>(initialIds);
+  const [urls, setUrls] = useState<(string | null)[]>([null, null]);
+  const [audibleSide, setAudibleSide] = useState(0); // Both at once is just noise
+  const [isPlaying, setIsPlaying] = useState(false);
+  const videoRefs = [useRef<HTMLVideoElement>(null), useRef<HTMLVideoElement>(null)];
+
+  useEffect(() => {
+    let cancelled = false;
+    const created: string[] = [];
+    Promise.all(ids.map(id => getTakeMedia(id)))
+      .then(blobs => {
+        if (cancelled) return;
+        const next = blobs.map(blob => URL.createObjectURL(blob));
+        created.push(...next);
+        setUrls(next);
+        setIsPlaying(false);
+      })
+      .catch(err => {
+        console.error(err);
+        onError("Could not load these takes.");
+      });
+    return () => {
+      cancelled = true;
+      created.forEach(url => URL.revokeObjectURL(url));
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ids[0], ids[1]]);
+
+  const handlePlayBoth = () => {
+    const videos = videoRefs.map(ref => ref.current).filter((v): v is HTMLVideoElement => !!v);
+    if (isPlaying) {
+      videos.forEach(v => v.pause());
+      setIsPlaying(false);
+      return;
+    }
+    videos.forEach(v => {
+      if (v.ended) v.currentTime = 0;
+      v.play().catch(err => console.error("Failed to play take:", err));
+    });
+    setIsPlaying(true);
+  };
+
+  const handleRestart = () => {
+    videoRefs.forEach(ref => {
+      if (ref.current) ref.current.currentTime = 0;
+    });
+  };
+
+  const selectSide = (side: number, id: string) => {
+    setIds(prev => side === 0 ? [id, prev[1]] : [prev[0], id]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl max-h-[92vh] overflow-y-auto scrollbar-hide bg-white rounded-3xl shadow-2xl p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-slate-700">Compare takes</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleRestart}
+              className="px-3 py-1.5 rounded-full text-xs font-semibold bg-slate-100 text-slate-600 hover:bg-slate-200"
+            >
+              ⟲ From start
+            </button>
+            <button
+              onClick={handlePlayBoth}
+              className="px-4 py-1.5 rounded-full text-xs font-semibold bg-gradient-to-r from-rose-400 to-orange-400 text-white shadow-md"
+            >
+              {isPlaying ? '❚❚ Pause both' : '▶ Play both'}
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {ids.map((id, side) => {
+            const take = takes.find(t => t.id === id);
+            return (
+              <div key={side} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <select
+                    value={id}
+                    onChange={(e) => selectSide(side, e.target.value)}
+                    className="flex-1 rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 outline-none focus:border-rose-300"
+                  >
+                    {takes.map(t => (
+                      <option key={t.id} value={t.id}>
+                        Take {t.takeNumber ?? '?'} · {formatDuration(t.durationMs)}{t.isKeeper ? ' ⭐' : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setAudibleSide(side)}
+                    title="Listen to this side"
+                    className={`w-9 h-9 rounded-full text-sm ${audibleSide === side ? 'bg-sky-100 text-sky-600' : 'text-slate-300 hover:bg-slate-100'}`}
+                  >
+                    {audibleSide === side ? '🔊' : '🔈'}
+                  </button>
+                </div>
+                <div className="aspect-video bg-black rounded-2xl overflow-hidden flex items-center justify-center">
+                  {urls[side] && (
+                    <video
+                      ref={videoRefs[side]}
+                      src={urls[side] ?? undefined}
+                      muted={audibleSide !== side}
+                      controls
+                      onEnded={() => setIsPlaying(false)}
+                      className="max-w-full max-h-full"
+                    />
+                  )}
+                </div>
+                {take && (
+                  <button
+                    onClick={() => onKeeper(take.isKeeper ? null : take.id)}
+                    className={`
+                      w-full py-2 rounded-full text-sm font-semibold transition
+                      ${take.isKeeper
+                        ? 'bg-gradient-to-r from-amber-300 to-orange-300 text-white shadow-md'
+                        : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}
+                    `}
+                  >
+                    {take.isKeeper ? '⭐ Keeper' : '☆ Keep this take'}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end pt-2">
+          <button
+            onClick={onClose}
+            className="bg-white text-slate-600 px-5 py-2 rounded-full font-semibold shadow-md hover:bg-slate-50 transition"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ScriptBlock } from '../types';
+import { isTypingTarget } from '../utils/keyboard';
+
+interface TeleprompterProps {
+  blocks: ScriptBlock[];
+  speed: number; // 1..10
+  fontSize: number;
+  isRunning: boolean; // Scrolls only while recording and not paused
+  resetKey: unknown; // Jumps back to the top whenever this changes
+  onSpeedChange: (speed: number) => void;
+}
+
+// px per second for each speed step, ~10 is a brisk read at the default font size
+const PX_PER_SECOND_PER_STEP = 12;
+const MIN_SPEED = 1;
+const MAX_SPEED = 10;
+
+export const Teleprompter: React.FC<TeleprompterProps> = ({ blocks, speed, fontSize, isRunning, resetKey, onSpeedChange }) => {
+  const contentRef = useRef<HTMLDivElement>(null);
+  const offsetRef = useRef(0);
+  const [isHeld, setIsHeld] = useState(false);
+
+  // Space holds/releases the scroll, arrows change the speed
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      if (e.code === 'Space') {
+        // Also keeps a focused button (like Record) from being pressed
+        e.preventDefault();
+        if (e.type === 'keydown' && !e.repeat) setIsHeld(held => !held);
+      } else if (e.type === 'keydown' && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+        e.preventDefault();
+        const next = speed + (e.key === 'ArrowUp' ? 1 : -1);
+        onSpeedChange(Math.min(MAX_SPEED, Math.max(MIN_SPEED, next)));
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('keyup', handleKey);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('keyup', handleKey);
+    };
+  }, [speed, onSpeedChange]);
+
+  useEffect(() => {
+    offsetRef.current = 0;
+    setIsHeld(false);
+    if (contentRef.current) contentRef.current.style.transform = 'translateY(0px)';
+  }, [resetKey]);
+
+  // Scrolled with a transform from rAF, smoother than re-rendering for every pixel
+  useEffect(() => {
+    if (!isRunning || isHeld) return;
+    let frame: number;
+    let last = performance.now();
+
+    const tick = (now: number) => {
+      const content = contentRef.current;
+      if (content) {
+        const maxOffset = Math.max(0, content.scrollHeight - fontSize * 2);
+        offsetRef.current = Math.min(maxOffset, offsetRef.current + (now - last) / 1000 * speed * PX_PER_SECOND_PER_STEP);
+        content.style.transform = `translateY(${-offsetRef.current}px)`;
+      }
+      last = now;
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isRunning, isHeld, speed, fontSize]);
+
+  return (
+    <div className="absolute inset-x-0 top-14 h-[45%] z-10 pointer-events-none">
+      <div className="relative h-full mx-4 rounded-2xl bg-slate-900/60 backdrop-blur-sm overflow-hidden">
+        {/* Fade the edges so the reading line stands out */}
+        <div
+          className="h-full overflow-hidden px-6 pt-8"
+          style={{ maskImage: 'linear-gradient(to bottom, transparent, black 15%, black 70%, transparent)' }}
+        >
+          <div ref={contentRef} className="space-y-4 text-center text-white will-change-transform" style={{ fontSize }}>
+            {blocks.length === 0 && (
+              <p className="text-white/50 text-base">No script yet. Add one with the ✏️ next to the mode buttons.</p>
+            )}
+            {blocks.map((block, i) => (
+              <p
+                key={i}
+                className={`leading-snug ${block.kind === 'heading' ? 'font-bold text-rose-200' : 'font-semibold'}`}
+              >
+                {block.kind === 'bullet' && <span className="text-rose-300 mr-2">•</span>}
+                {block.text}
+              </p>
+            ))}
+          </div>
+        </div>
+
+        <div className="absolute bottom-2 right-3 text-[10px] font-bold text-white/60 tabular-nums">
+          {isHeld ? 'HELD · Space to resume' : `Speed ${speed} · ↑↓ · Space to hold`}
+        </div>
+      </div>
+    </div>
+  );
+};
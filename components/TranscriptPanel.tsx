@@ -0,0 +1,57 @@
+import React from 'react';
+import { TranscriptEntry } from '../types';
+import { formatDuration } from '../utils/format';
+import { speakerLabel } from '../utils/transcript';
+
+interface TranscriptPanelProps {
+  entries: TranscriptEntry[];
+  onSeek: (seconds: number) => void;
+  onDownload: (format: 'md' | 'txt' | 'json') => void;
+}
+
+export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ entries, onSeek, onDownload }) => {
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-slate-100">
+        <span className="text-[11px] font-semibold text-slate-400">Download</span>
+        <div className="flex gap-1 text-[11px] font-semibold text-slate-500">
+          {(['md', 'txt', 'json'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => onDownload(format)}
+              disabled={entries.length === 0}
+              className="px-2 py-0.5 rounded-full hover:bg-sky-100 hover:text-sky-600 transition uppercase disabled:opacity-40"
+            >
+              {format}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-xs text-slate-400 px-6 text-center">
+          No transcript for this take.
+        </div>
+      ) : (
+        <ol className="flex-1 overflow-y-auto scrollbar-hide px-4 py-3 space-y-3">
+          {entries.map((entry, i) => (
+            <li key={i} className="text-sm leading-snug">
+              <button 
+                onClick={() => onSeek(entry.start)}
+                className="text-[11px] font-semibold tabular-nums text-slate-400 hover:text-sky-500 mr-2"
+              >
+                {formatDuration(entry.start * 1000)}
+              </button>
+              <span className={`text-[11px] font-bold uppercase tracking-wide ${entry.speaker === 'interviewer' ? 'text-rose-400' : 'text-teal-500'}`}>
+                {speakerLabel(entry)}
+              </span>
+              <p className={entry.speaker === 'interviewer' ? 'text-slate-700 font-semibold' : 'text-slate-600'}>
+                {entry.text}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
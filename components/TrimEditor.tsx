@@ -0,0 +1,237 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { EditDecision, QuestionCue } from '../types';
+import { getKeptRanges, keptDuration, nextKeptTime } from '../utils/editDecision';
+import { formatDuration } from '../utils/format';
+
+interface TrimEditorProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  duration: number; // seconds
+  edit: EditDecision;
+  questionCues: QuestionCue[];
+  isRendering: boolean;
+  renderProgress: number;
+  onChange: (edit: EditDecision) => void;
+  onRender: () => void;
+  onCancel: () => void;
+}
+
+type DragTarget = 'in' | 'out' | null;
+
+export const TrimEditor: React.FC<TrimEditorProps> = ({ 
+  videoRef, 
+  duration, 
+  edit, 
+  questionCues, 
+  isRendering, 
+  renderProgress, 
+  onChange, 
+  onRender, 
+  onCancel 
+}) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const [playhead, setPlayhead] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [dragging, setDragging] = useState<DragTarget>(null);
+  const [pendingCutStart, setPendingCutStart] = useState<number | null>(null);
+
+  const keptRanges = useMemo(() => getKeptRanges(edit), [edit]);
+  // A take with broken metadata can report 0 or Infinity, there's no timeline to draw then
+  const hasDuration = Number.isFinite(duration) && duration > 0;
+  const toPercent = (t: number) => hasDuration ? `${(Math.min(Math.max(t, 0), duration) / duration) * 100}%` : '0%';
+
+  // Play back the edit: skip removed stretches and stop at the out point
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const handleTimeUpdate = () => {
+      setPlayhead(video.currentTime);
+      if (video.paused) return;
+      const next = nextKeptTime(video.currentTime, keptRanges);
+      if (next === null) {
+        video.pause();
+      } else if (next !== video.currentTime) {
+        video.currentTime = next;
+      }
+    };
+    const handlePlay = () => setIsPlaying(true);
+    const handlePause = () => setIsPlaying(false);
+
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('play', handlePlay);
+    video.addEventListener('pause', handlePause);
+    return () => {
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('play', handlePlay);
+      video.removeEventListener('pause', handlePause);
+    };
+  }, [videoRef, keptRanges]);
+
+  const timeAt = (clientX: number) => {
+    const rect = barRef.current?.getBoundingClientRect();
+    if (!rect || !hasDuration) return 0;
+    return Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1) * duration;
+  };
+
+  const seek = (t: number) => {
+    if (videoRef.current) videoRef.current.currentTime = t;
+    setPlayhead(t);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragging) return;
+    const t = timeAt(e.clientX);
+    if (dragging === 'in') {
+      onChange({ ...edit, inPoint: Math.min(t, edit.outPoint - 0.5) });
+    } else {
+      onChange({ ...edit, outPoint: Math.max(t, edit.inPoint + 0.5) });
+    }
+    seek(t);
+  };
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) {
+      // Starting outside the edit jumps to the in point
+      if (nextKeptTime(video.currentTime, keptRanges) === null) video.currentTime = edit.inPoint;
+      video.play();
+    } else {
+      video.pause();
+    }
+  };
+
+  const handleCut = () => {
+    if (pendingCutStart === null) {
+      setPendingCutStart(playhead);
+      return;
+    }
+    const start = Math.min(pendingCutStart, playhead);
+    const end = Math.max(pendingCutStart, playhead);
+    setPendingCutStart(null);
+    if (end - start > 0.1) {
+      onChange({ ...edit, cuts: [...edit.cuts, { start, end }] });
+    }
+  };
+
+  if (!hasDuration) {
+    return (
+      <div className="w-full max-w-2xl bg-white/90 backdrop-blur-lg rounded-2xl shadow-xl border border-white/50 p-3 flex items-center gap-2 text-xs font-semibold">
+        <span className="text-slate-500">This take's length is unknown, so it can't be trimmed.</span>
+        <button onClick={onCancel} className="ml-auto px-3 py-1.5 rounded-full text-slate-500 hover:bg-slate-100">
+          Close
+        </button>
+      </div>
+    );
+  }
+
+  const handleClass = "absolute top-0 bottom-0 w-3 -ml-1.5 bg-rose-400 rounded cursor-ew-resize shadow-md touch-none";
+
+  return (
+    <div className="w-full max-w-2xl bg-white/90 backdrop-blur-lg rounded-2xl shadow-xl border border-white/50 p-3 space-y-2">
+      {/* Timeline */}
+      <div 
+        ref={barRef}
+        className="relative h-10 bg-slate-200 rounded-lg select-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(null)}
+        onPointerLeave={() => setDragging(null)}
+        onClick={(e) => !dragging && seek(timeAt(e.clientX))}
+      >
+        {keptRanges.map((range, i) => (
+          <div 
+            key={i} 
+            className="absolute top-0 bottom-0 bg-teal-200/80" 
+            style={{ left: toPercent(range.start), width: `calc(${toPercent(range.end)} - ${toPercent(range.start)})` }} 
+          />
+        ))}
+
+        {edit.cuts.map((cut, i) => (
+          <button
+            key={i}
+            onClick={(e) => {
+              e.stopPropagation();
+              onChange({ ...edit, cuts: edit.cuts.filter((_, j) => j !== i) });
+            }}
+            title="Restore this section"
+            className="absolute top-0 bottom-0 bg-red-300/60 hover:bg-red-300/90 text-[10px] font-bold text-red-700"
+            style={{ left: toPercent(cut.start), width: `calc(${toPercent(cut.end)} - ${toPercent(cut.start)})` }}
+          >
+            ×
+          </button>
+        ))}
+
+        {pendingCutStart !== null && (
+          <div className="absolute top-0 bottom-0 w-0.5 bg-red-500" style={{ left: toPercent(pendingCutStart) }} />
+        )}
+
+        {/* AI question markers */}
+        {questionCues.map((cue, i) => (
+          <div 
+            key={i} 
+            title={cue.text}
+            className="absolute -top-1.5 w-2.5 h-2.5 -ml-1.5 rounded-full bg-sky-400 border-2 border-white shadow"
+            style={{ left: toPercent(cue.start) }} 
+          />
+        ))}
+
+        <div className="absolute top-0 bottom-0 w-0.5 bg-slate-700 pointer-events-none" style={{ left: toPercent(playhead) }} />
+
+        <div 
+          className={handleClass} 
+          style={{ left: toPercent(edit.inPoint) }}
+          onPointerDown={(e) => { e.stopPropagation(); setDragging('in'); }}
+          title="In point"
+        />
+        <div 
+          className={handleClass} 
+          style={{ left: toPercent(edit.outPoint) }}
+          onPointerDown={(e) => { e.stopPropagation(); setDragging('out'); }}
+          title="Out point"
+        />
+      </div>
+
+      {/* Controls */}
+      <div className="flex items-center gap-2 text-xs font-semibold">
+        <button onClick={togglePlay} className="w-8 h-8 rounded-full bg-slate-100 text-slate-600 hover:bg-slate-200">
+          {isPlaying ? '❚❚' : '▶'}
+        </button>
+        <span className="tabular-nums text-slate-500 w-20">{formatDuration(playhead * 1000)}</span>
+        <button 
+          onClick={() => onChange({ ...edit, inPoint: Math.min(playhead, edit.outPoint - 0.5) })}
+          className="px-2 py-1 rounded-full text-slate-500 hover:bg-slate-100"
+        >
+          [ In
+        </button>
+        <button 
+          onClick={() => onChange({ ...edit, outPoint: Math.max(playhead, edit.inPoint + 0.5) })}
+          className="px-2 py-1 rounded-full text-slate-500 hover:bg-slate-100"
+        >
+          Out ]
+        </button>
+        <button 
+          onClick={handleCut}
+          className={`px-2 py-1 rounded-full ${pendingCutStart !== null ? 'bg-red-100 text-red-600' : 'text-slate-500 hover:bg-slate-100'}`}
+        >
+          {pendingCutStart !== null ? '✂️ Cut to here' : '✂️ Cut from here'}
+        </button>
+
+        <span className="ml-auto text-slate-400 tabular-nums">{formatDuration(keptDuration(keptRanges) * 1000)} kept</span>
+        <button 
+          onClick={onCancel}
+          disabled={isRendering}
+          className="px-3 py-1.5 rounded-full text-slate-500 hover:bg-slate-100 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onRender}
+          disabled={isRendering || keptRanges.length === 0}
+          className="px-4 py-1.5 rounded-full bg-gradient-to-r from-teal-400 to-emerald-400 text-white shadow-md disabled:opacity-60"
+        >
+          {isRendering ? `Rendering ${Math.round(renderProgress * 100)}%` : 'Render'}
+        </button>
+      </div>
+    </div>
+  );
+};
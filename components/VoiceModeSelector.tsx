@@ -0,0 +1,39 @@
+import React from 'react';
+import { InterviewerVoiceMode } from '../types';
+
+interface VoiceModeSelectorProps {
+  selected: InterviewerVoiceMode;
+  onChange: (mode: InterviewerVoiceMode) => void;
+  disabled: boolean;
+}
+
+export const VoiceModeSelector: React.FC<VoiceModeSelectorProps> = ({ selected, onChange, disabled }) => {
+  const modes = [
+    { value: InterviewerVoiceMode.SILENT, label: 'Silent', icon: '💬', hint: 'Questions appear as text only' },
+    { value: InterviewerVoiceMode.HEADPHONES, label: 'Voice', icon: '🎧', hint: 'Hear the interviewer, keep it out of the recording' },
+    { value: InterviewerVoiceMode.RECORDED, label: 'On tape', icon: '🎙️', hint: 'Hear the interviewer and mix the voice into the recording' },
+  ];
+
+  return (
+    <div className="flex space-x-1 bg-white/50 backdrop-blur-sm p-1.5 rounded-full shadow-sm border border-white/60">
+      {modes.map((mode) => (
+        <button
+          key={mode.value}
+          onClick={() => onChange(mode.value)}
+          disabled={disabled}
+          title={mode.hint}
+          className={`
+            px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-300 flex items-center gap-1
+            ${selected === mode.value 
+              ? 'bg-gradient-to-r from-sky-300 to-indigo-300 text-white shadow-md' 
+              : 'text-slate-500 hover:bg-white/80'}
+            ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+          `}
+        >
+          <span>{mode.icon}</span>
+          <span>{mode.label}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
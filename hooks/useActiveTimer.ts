@@ -0,0 +1,39 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Elapsed time while running, excluding paused stretches. Resets when it starts again.
+export const useActiveTimer = (isRunning: boolean, isPaused: boolean) => {
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const accumulatedRef = useRef(0);
+  const segmentStartRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!isRunning) {
+      segmentStartRef.current = null;
+      return;
+    }
+    if (isPaused) return;
+
+    segmentStartRef.current = Date.now();
+    const interval = setInterval(() => {
+      setElapsedMs(accumulatedRef.current + Date.now() - (segmentStartRef.current ?? Date.now()));
+    }, 250);
+
+    return () => {
+      clearInterval(interval);
+      if (segmentStartRef.current !== null) {
+        accumulatedRef.current += Date.now() - segmentStartRef.current;
+        segmentStartRef.current = null;
+      }
+    };
+  }, [isRunning, isPaused]);
+
+  // A fresh run starts from zero
+  useEffect(() => {
+    if (isRunning) {
+      accumulatedRef.current = 0;
+      setElapsedMs(0);
+    }
+  }, [isRunning]);
+
+  return elapsedMs;
+};
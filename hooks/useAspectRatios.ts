@@ -0,0 +1,49 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AspectRatio, CustomAspectRatio } from '../types';
+import { loadCustomRatios, loadSelectedRatioId, saveCustomRatios, saveSelectedRatioId } from '../services/aspectRatios';
+import { customRatioLabel, isBuiltInRatio, resolveFrame } from '../utils/aspectRatio';
+
+// Built-in framings plus the user's own ratios and exact sizes, persisted in localStorage
+export const useAspectRatios = () => {
+  const [customRatios, setCustomRatios] = useState<CustomAspectRatio[]>(loadCustomRatios);
+  const [selectedId, setSelectedId] = useState<string>(loadSelectedRatioId);
+
+  // Memoized, the recorder's draw loop restarts whenever the frame object changes
+  const frame = useMemo(() => resolveFrame(selectedId, customRatios), [selectedId, customRatios]);
+
+  useEffect(() => {
+    saveSelectedRatioId(frame.id);
+  }, [frame.id]);
+
+  const updateCustomRatios = (update: (prev: CustomAspectRatio[]) => CustomAspectRatio[]) => {
+    setCustomRatios(prev => {
+      const next = update(prev);
+      saveCustomRatios(next);
+      return next;
+    });
+  };
+
+  // Adding one that already exists just selects it
+  const addCustomRatio = (ratio: CustomAspectRatio) => {
+    const label = customRatioLabel(ratio);
+    if (!ratio.exactSize && isBuiltInRatio(label)) {
+      setSelectedId(label);
+      return;
+    }
+    updateCustomRatios(prev => prev.some(r => r.id === ratio.id) ? prev : [...prev, ratio]);
+    setSelectedId(ratio.id);
+  };
+
+  const deleteCustomRatio = (id: string) => {
+    updateCustomRatios(prev => prev.filter(r => r.id !== id));
+    if (id === selectedId) setSelectedId(AspectRatio.PORTRAIT_9_16);
+  };
+
+  // Cycles through the built-ins, then the user's own, in selector order
+  const selectNextAspectRatio = () => {
+    const ids: string[] = [...Object.values(AspectRatio), ...customRatios.map(r => r.id)];
+    setSelectedId(ids[(ids.indexOf(frame.id) + 1) % ids.length]);
+  };
+
+  return { frame, customRatios, selectAspectRatio: setSelectedId, selectNextAspectRatio, addCustomRatio, deleteCustomRatio };
+};
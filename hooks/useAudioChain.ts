@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState } from 'react';
+import { AudioSettings, LoudnessTarget } from '../types';
+import { AudioChain, createAudioChain } from '../utils/audioChain';
+
+// Runs the mic of `stream` through the processing chain. Null until there is a mic.
+export const useAudioChain = (stream: MediaStream | null, settings: AudioSettings) => {
+  const [chain, setChain] = useState<AudioChain | null>(null);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  useEffect(() => {
+    const track = stream?.getAudioTracks()[0];
+    if (!track) {
+      setChain(null);
+      return;
+    }
+
+    const created = createAudioChain(track, settingsRef.current);
+    setChain(created);
+
+    // Contexts made before a user gesture start suspended, and would record silence
+    const resume = () => {
+      created.resume().catch(err => console.error("Failed to start audio processing:", err));
+    };
+    resume();
+    window.addEventListener('pointerdown', resume);
+    window.addEventListener('keydown', resume);
+
+    return () => {
+      window.removeEventListener('pointerdown', resume);
+      window.removeEventListener('keydown', resume);
+      created.close();
+    };
+  }, [stream]);
+
+  useEffect(() => {
+    chain?.update(settings);
+  }, [chain, settings]);
+
+  // Noise suppression also switches the browser's own suppressor on the mic track, ahead of the
+  // chain's gate. Its gain control would fight our levelling, so that's only off while we level.
+  const isLevelling = settings.compressor || settings.loudnessTarget !== LoudnessTarget.OFF;
+  useEffect(() => {
+    const track = stream?.getAudioTracks()[0];
+    if (!track?.applyConstraints) return;
+    const { autoGainControl, ...constraints } = track.getConstraints();
+    track.applyConstraints({
+      ...constraints,
+      noiseSuppression: settings.noiseSuppression,
+      ...(isLevelling ? { autoGainControl: false } : {}),
+    }).catch(err => console.error("Failed to update the mic constraints:", err));
+  }, [stream, settings.noiseSuppression, isLevelling]);
+
+  return chain;
+};
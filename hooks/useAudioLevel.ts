@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+
+// Live 0..1 input level of a stream's first audio track, for meters
+export const useAudioLevel = (stream: MediaStream | null) => {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    const track = stream?.getAudioTracks()[0];
+    if (!track) {
+      setLevel(0);
+      return;
+    }
+
+    const ctx = new AudioContext();
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 1024;
+    ctx.createMediaStreamSource(new MediaStream([track])).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    let frame: number;
+    let smoothed = 0;
+
+    const tick = () => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+      const rms = Math.sqrt(sum / samples.length);
+      // Speech RMS rarely goes past ~0.3, stretch it so normal talking fills the meter.
+      // Fast attack, slow release keeps the bar from flickering.
+      const target = Math.min(1, rms * 4);
+      smoothed = target > smoothed ? target : smoothed * 0.9 + target * 0.1;
+      setLevel(smoothed);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      ctx.close();
+    };
+  }, [stream]);
+
+  return level;
+};
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { BrandKit } from '../types';
+import { loadBrandKits, loadSelectedBrandKitId, saveBrandKits, saveSelectedBrandKitId } from '../services/brandKits';
+
+// The user's saved brand kits, persisted in localStorage. No kit selected means no branding.
+export const useBrandKits = (onError: (msg: string) => void) => {
+  const [brandKits, setBrandKits] = useState<BrandKit[]>(loadBrandKits);
+  const [selectedId, setSelectedId] = useState<string>(loadSelectedBrandKitId);
+
+  const activeBrandKit = brandKits.find(k => k.id === selectedId) ?? null;
+
+  useEffect(() => {
+    saveSelectedBrandKitId(activeBrandKit?.id ?? '');
+  }, [activeBrandKit?.id]);
+
+  // Logos make kits big, a full storage keeps them for this session only
+  const updateBrandKits = (update: (prev: BrandKit[]) => BrandKit[]) => {
+    const next = update(brandKits);
+    setBrandKits(next);
+    if (!saveBrandKits(next)) {
+      onError("Brand kits couldn't be saved, the browser storage is full. Try a smaller logo or delete a kit.");
+    }
+  };
+
+  const saveBrandKit = (kit: BrandKit) => {
+    updateBrandKits(prev => prev.some(k => k.id === kit.id)
+      ? prev.map(k => k.id === kit.id ? kit : k)
+      : [...prev, kit]);
+    setSelectedId(kit.id);
+  };
+
+  const deleteBrandKit = (id: string) => {
+    updateBrandKits(prev => prev.filter(k => k.id !== id));
+    if (id === selectedId) setSelectedId('');
+  };
+
+  return { brandKits, activeBrandKit, selectBrandKit: setSelectedId, saveBrandKit, deleteBrandKit };
+};
@@ -0,0 +1,353 @@
+import { MutableRefObject, RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import {
+  BrandKit,
+  EffectSettings,
+  FrameFormat,
+  QUALITY_PRESETS,
+  QualityPresetId,
+  SAFE_AREA_CONFIGS,
+  ScreenLayoutSettings,
+  VideoConfig
+} from '../types';
+import { drawTitleCard, stepTitleCard, TitleCardState } from '../utils/titleCard';
+import { RecordingClock, toMediaMs } from '../utils/recordingClock';
+import { getOutputSize } from '../utils/quality';
+import { nearestAspectRatio } from '../utils/aspectRatio';
+import { clampZoom, computeCrop, createFraming, CropRect, Framing, panFraming, stepFraming } from '../utils/framing';
+import { createFaceTracker, FaceBox } from '../utils/faceTracking';
+import { applyEffects, hasActiveEffects } from '../utils/effects';
+import { loadPersonSegmenter, PersonSegmenter } from '../utils/segmentation';
+import { BRAND_TRANSITION_MS, drawBrandCard, drawLowerThird, drawWatermark, introOpacity, outroOpacity } from '../utils/branding';
+import { drawCountdown } from '../utils/countdown';
+import { drawCameraLayer, drawScreen, getLayoutRects, LayoutRects } from '../utils/screenLayout';
+
+// Auto-frame looks for the face this often, the pan in between is eased per frame
+const FACE_DETECT_INTERVAL_MS = 200;
+// Background blur re-segments this often, the mask in between is reused
+const SEGMENT_INTERVAL_MS = 66;
+// Ignore face movement smaller than this share of the frame, so the shot doesn't wobble
+const FRAMING_DEAD_ZONE = 0.03;
+
+interface UseCanvasCompositorProps {
+  videoRef: RefObject<HTMLVideoElement>;
+  canvasRef: RefObject<HTMLCanvasElement>;
+  stream: MediaStream | null; // The loop runs while there is a camera
+  frame: FrameFormat;
+  quality: QualityPresetId;
+  effects: EffectSettings;
+  brandKit: BrandKit | null;
+  burnInQuestions: boolean;
+  question: string;
+  countdown: number | null; // Seconds left before recording starts
+  screenVideoRef: RefObject<HTMLVideoElement>;
+  screenLayoutRef: MutableRefObject<ScreenLayoutSettings>;
+  // Owned by the recorder: whether a take is running, when its outro started and its clock
+  isRecordingRef: MutableRefObject<boolean>;
+  outroStartedAtRef: MutableRefObject<number | null>;
+  clockRef: MutableRefObject<RecordingClock>;
+}
+
+// Draws every frame of the output canvas: the framed camera with its looks, the shared screen,
+// branding, the burned-in question and the countdown. Everything ends up in the recording.
+export const useCanvasCompositor = ({
+  videoRef,
+  canvasRef,
+  stream,
+  frame,
+  quality,
+  effects,
+  brandKit,
+  burnInQuestions,
+  question,
+  countdown,
+  screenVideoRef,
+  screenLayoutRef,
+  isRecordingRef,
+  outroStartedAtRef,
+  clockRef
+}: UseCanvasCompositorProps) => {
+  const [outputSize, setOutputSize] = useState<VideoConfig | null>(null);
+  const [autoFrame, setAutoFrame] = useState(false);
+  const [zoom, setZoom] = useState(1);
+  const animationFrameRef = useRef<number>();
+  const frameTimerRef = useRef<number>();
+
+  // The draw loop reads these through refs so it doesn't restart on every question
+  const questionRef = useRef(question);
+  questionRef.current = question;
+  const burnInRef = useRef(burnInQuestions);
+  burnInRef.current = burnInQuestions;
+  const titleCardRef = useRef<TitleCardState>({ text: "", progress: 0 });
+  const lastFrameTimeRef = useRef(0);
+  // Crop window: the draw loop eases `framing` towards `targetFraming`
+  const framingRef = useRef<Framing>(createFraming());
+  const targetFramingRef = useRef<Framing>(createFraming());
+  const lastCropRef = useRef<CropRect | null>(null);
+  // Where the screen and camera went in the last frame, for pointer hit tests
+  const layoutRectsRef = useRef<LayoutRects | null>(null);
+  const cameraLayerRef = useRef<CanvasRenderingContext2D | null>(null);
+  // Last face found by the tracker, in fractions of the camera frame
+  const faceRef = useRef<FaceBox | null>(null);
+  const segmenterRef = useRef<PersonSegmenter | null>(null);
+  const personMaskRef = useRef<{ image: HTMLCanvasElement; at: number } | null>(null);
+  const effectsRef = useRef(effects);
+  effectsRef.current = effects;
+  const scratchRef = useRef<CanvasRenderingContext2D | null>(null);
+  const brandKitRef = useRef(brandKit);
+  brandKitRef.current = brandKit;
+  const logoRef = useRef<HTMLImageElement | null>(null);
+  // When the current countdown number first showed, for the ring animation
+  const countdownRef = useRef<{ seconds: number; shownAt: number } | null>(null);
+  if (countdown === null) {
+    countdownRef.current = null;
+  } else if (countdownRef.current?.seconds !== countdown) {
+    countdownRef.current = { seconds: countdown, shownAt: performance.now() };
+  }
+
+  const draw = useCallback(() => {
+    if (!videoRef.current || !canvasRef.current) return;
+
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) return;
+
+    // Source dimensions
+    const vw = video.videoWidth;
+    const vh = video.videoHeight;
+    const screen = screenVideoRef.current;
+    const hasScreen = !!screen?.srcObject && screen.videoWidth > 0;
+    // A shared screen is usually sharper than the camera, let it raise the output size
+    const wanted: VideoConfig = hasScreen && screen
+        ? getOutputSize(frame, QUALITY_PRESETS[quality], Math.max(vw, screen.videoWidth), Math.max(vh, screen.videoHeight))
+        : getOutputSize(frame, QUALITY_PRESETS[quality], vw, vh);
+    const isTaking = isRecordingRef.current || outroStartedAtRef.current !== null;
+
+    // Set canvas internal resolution (not mid-take, the encoder keeps its first size)
+    if ((canvas.width !== wanted.width || canvas.height !== wanted.height) && !isTaking) {
+        canvas.width = wanted.width;
+        canvas.height = wanted.height;
+        setOutputSize(wanted);
+    }
+    const config: VideoConfig = { width: canvas.width, height: canvas.height };
+
+    const now = performance.now();
+    const elapsed = lastFrameTimeRef.current ? now - lastFrameTimeRef.current : 0;
+    lastFrameTimeRef.current = now;
+
+    const safeArea = SAFE_AREA_CONFIGS[nearestAspectRatio(frame.label)];
+    const rects = getLayoutRects(screenLayoutRef.current, hasScreen, config, safeArea);
+    layoutRectsRef.current = rects;
+    stepFraming(framingRef.current, targetFramingRef.current, elapsed);
+
+    // Crops the camera into `target` (user or auto framing, centered by default) and applies the looks
+    const renderCamera = (target: CanvasRenderingContext2D, width: number, height: number) => {
+        const crop = computeCrop(vw, vh, width, height, framingRef.current);
+        lastCropRef.current = crop;
+        target.drawImage(video, crop.sx, crop.sy, crop.sWidth, crop.sHeight, 0, 0, width, height);
+
+        // Looks and effects, baked into the canvas so they end up in the file
+        if (!hasActiveEffects(effectsRef.current)) return;
+        if (!scratchRef.current) {
+            scratchRef.current = document.createElement('canvas').getContext('2d');
+        }
+        const scratch = scratchRef.current;
+        if (!scratch) return;
+        if (scratch.canvas.width !== width || scratch.canvas.height !== height) {
+            scratch.canvas.width = width;
+            scratch.canvas.height = height;
+        }
+        // Person mask for the background blur, in camera-frame pixels of the mask
+        let personMask = personMaskRef.current;
+        const segmenter = segmenterRef.current;
+        if (effectsRef.current.backgroundBlur && segmenter && (!personMask || now - personMask.at >= SEGMENT_INTERVAL_MS)) {
+            const image = segmenter.segment(video, now);
+            personMask = image ? { image, at: now } : null;
+            personMaskRef.current = personMask;
+        }
+        const maskScaleX = personMask ? personMask.image.width / vw : 0;
+        const maskScaleY = personMask ? personMask.image.height / vh : 0;
+
+        const face = faceRef.current;
+        applyEffects({
+            ctx: target,
+            width,
+            height,
+            scratch,
+            // Tracker works on the camera frame, effects on the cropped output
+            face: face && {
+                x: (face.x * vw - crop.sx) / crop.sWidth,
+                y: (face.y * vh - crop.sy) / crop.sHeight,
+                width: face.width * vw / crop.sWidth,
+                height: face.height * vh / crop.sHeight,
+            },
+            personMask: personMask && {
+                image: personMask.image,
+                sx: crop.sx * maskScaleX,
+                sy: crop.sy * maskScaleY,
+                sWidth: crop.sWidth * maskScaleX,
+                sHeight: crop.sHeight * maskScaleY,
+            },
+        }, effectsRef.current);
+    };
+
+    if (!rects.screen) {
+        renderCamera(ctx, config.width, config.height);
+    } else {
+        // Screen share: screen first, then the camera layer on top or beside it
+        if (screen) drawScreen(ctx, screen, rects.screen);
+        if (rects.camera) {
+            if (!cameraLayerRef.current) {
+                cameraLayerRef.current = document.createElement('canvas').getContext('2d');
+            }
+            const layer = cameraLayerRef.current;
+            const layerWidth = Math.max(2, Math.round(rects.camera.width));
+            const layerHeight = Math.max(2, Math.round(rects.camera.height));
+            if (layer) {
+                if (layer.canvas.width !== layerWidth || layer.canvas.height !== layerHeight) {
+                    layer.canvas.width = layerWidth;
+                    layer.canvas.height = layerHeight;
+                }
+                renderCamera(layer, layerWidth, layerHeight);
+                drawCameraLayer(ctx, layer.canvas, rects.camera, rects.isBubble);
+            }
+        }
+    }
+
+    const kit = brandKitRef.current;
+    const logo = logoRef.current;
+    // Branding runs on recorded time; in the preview the lower-third just sits there for checking
+    const recordedMs = isTaking ? toMediaMs(clockRef.current, Date.now()) : BRAND_TRANSITION_MS;
+
+    if (kit) {
+        drawLowerThird(ctx, kit, config, safeArea, recordedMs);
+        if (logo) drawWatermark(ctx, logo, kit, config, safeArea);
+    }
+
+    // Burned-in question card
+    const titleCard = titleCardRef.current;
+    stepTitleCard(titleCard, burnInRef.current ? questionRef.current : "", elapsed);
+    drawTitleCard(ctx, titleCard, config, safeArea);
+
+    // Intro/outro cards cover everything else
+    if (kit && isTaking) {
+        drawBrandCard(ctx, kit.intro, kit, logo, config, introOpacity(kit.intro, recordedMs));
+    }
+    if (kit && outroStartedAtRef.current !== null) {
+        drawBrandCard(ctx, kit.outro, kit, logo, config, outroOpacity(kit.outro, now - outroStartedAtRef.current));
+    }
+
+    const countdownState = countdownRef.current;
+    if (countdownState && !isTaking) {
+        drawCountdown(ctx, countdownState.seconds, (now - countdownState.shownAt) / 1000, config);
+    }
+
+    // Sharing another tab or window usually hides this one, and animation frames stop in a
+    // hidden tab. A take or a shared screen runs on a timer so the recording keeps moving.
+    if (isTaking || hasScreen) {
+        frameTimerRef.current = window.setTimeout(draw, 1000 / QUALITY_PRESETS[quality].fps);
+    } else {
+        animationFrameRef.current = requestAnimationFrame(draw);
+    }
+  }, [frame, quality]);
+
+  useEffect(() => {
+    if (stream) {
+       animationFrameRef.current = requestAnimationFrame(draw);
+    }
+    return () => {
+      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+      clearTimeout(frameTimerRef.current);
+    };
+  }, [draw, stream]);
+
+  // Keep a decoded logo around for the draw loop
+  useEffect(() => {
+    logoRef.current = null;
+    if (!brandKit?.logo) return;
+    const image = new Image();
+    image.onload = () => { logoRef.current = image; };
+    image.src = brandKit.logo;
+  }, [brandKit?.logo]);
+
+  // The segmentation model only loads once someone wants the blur
+  useEffect(() => {
+    if (!effects.backgroundBlur) {
+      personMaskRef.current = null;
+      return;
+    }
+    let cancelled = false;
+    loadPersonSegmenter().then(segmenter => {
+      if (!cancelled) segmenterRef.current = segmenter;
+    });
+    return () => { cancelled = true; };
+  }, [effects.backgroundBlur]);
+
+  // Find the face a few times a second, for auto-frame panning and the background blur mask
+  useEffect(() => {
+    faceRef.current = null;
+    if ((!autoFrame && !effects.backgroundBlur) || !stream) return;
+    const tracker = createFaceTracker();
+    let busy = false;
+
+    const interval = setInterval(async () => {
+      const video = videoRef.current;
+      const crop = lastCropRef.current;
+      if (busy || !video || !crop || !video.videoWidth) return;
+      busy = true;
+      try {
+        const face = await tracker.detect(video);
+        faceRef.current = face;
+        if (!face || !autoFrame) return;
+        const target = targetFramingRef.current;
+        // Leave some headroom: eyes a little above the middle of the shot
+        const centerX = face.x;
+        const centerY = face.y + (crop.sHeight / video.videoHeight) * 0.1;
+        if (Math.abs(centerX - target.centerX) > FRAMING_DEAD_ZONE || Math.abs(centerY - target.centerY) > FRAMING_DEAD_ZONE) {
+          targetFramingRef.current = { ...target, centerX, centerY };
+        }
+      } catch (err) {
+        console.error("Face tracking failed:", err);
+      } finally {
+        busy = false;
+      }
+    }, FACE_DETECT_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [autoFrame, effects.backgroundBlur, stream]);
+
+  const applyZoom = (factor: number) => {
+    const next = clampZoom(targetFramingRef.current.zoom * factor);
+    targetFramingRef.current = { ...targetFramingRef.current, zoom: next };
+    setZoom(next);
+  };
+
+  // Moves the shot by a share of the camera's part of the frame. Follows the finger directly,
+  // only zoom keeps easing.
+  const panCamera = (dx: number, dy: number) => {
+    const video = videoRef.current;
+    const crop = lastCropRef.current;
+    if (!video || !crop || !video.videoWidth) return;
+    const next = panFraming(targetFramingRef.current, crop, video.videoWidth, video.videoHeight, dx, dy);
+    targetFramingRef.current = next;
+    framingRef.current = { ...framingRef.current, centerX: next.centerX, centerY: next.centerY };
+  };
+
+  const resetFraming = () => {
+    targetFramingRef.current = createFraming();
+    setZoom(1);
+    setAutoFrame(false);
+  };
+
+  return {
+    outputSize,
+    layoutRectsRef,
+    autoFrame,
+    setAutoFrame,
+    zoom,
+    applyZoom,
+    panCamera,
+    resetFraming,
+  };
+};
@@ -0,0 +1,99 @@
+import React, { MutableRefObject, useRef } from 'react';
+import { ScreenLayoutSettings } from '../types';
+import { ZOOM_STEP } from '../utils/framing';
+import { clampBubbleSize, isInRect, LayoutRects } from '../utils/screenLayout';
+
+const BUBBLE_WHEEL_STEP = 0.02;
+
+interface UseCanvasPointerProps {
+  layoutRectsRef: MutableRefObject<LayoutRects | null>;
+  screenLayoutRef: MutableRefObject<ScreenLayoutSettings>;
+  onScreenLayoutChange: (patch: Partial<ScreenLayoutSettings>) => void;
+  onPan: (dx: number, dy: number) => void; // In shares of the camera's part of the frame
+  onZoom: (factor: number) => void;
+  onGrab: () => void; // The user took over the framing
+}
+
+type CanvasPointerEvent = React.PointerEvent<HTMLCanvasElement> | React.WheelEvent<HTMLCanvasElement>;
+
+// Pointer position in canvas pixels
+const toCanvasPoint = (e: CanvasPointerEvent) => {
+  const canvas = e.currentTarget;
+  const bounds = canvas.getBoundingClientRect();
+  return {
+    x: (e.clientX - bounds.left) / bounds.width * canvas.width,
+    y: (e.clientY - bounds.top) / bounds.height * canvas.height,
+  };
+};
+
+// Manual reframing on the output canvas: drag to pan, wheel to zoom. With a screen share
+// the camera bubble is dragged around and resized instead. Returns the canvas handlers.
+export const useCanvasPointer = ({
+  layoutRectsRef,
+  screenLayoutRef,
+  onScreenLayoutChange,
+  onPan,
+  onZoom,
+  onGrab
+}: UseCanvasPointerProps) => {
+  const dragRef = useRef<{ x: number; y: number; target: 'camera' | 'bubble' } | null>(null);
+
+  const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rects = layoutRectsRef.current;
+    const point = toCanvasPoint(e);
+    if (!rects || !isInRect(rects.camera, point.x, point.y)) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (rects.isBubble) {
+      dragRef.current = { x: e.clientX, y: e.clientY, target: 'bubble' };
+      return;
+    }
+    dragRef.current = { x: e.clientX, y: e.clientY, target: 'camera' };
+    onGrab();
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    const cameraRect = layoutRectsRef.current?.camera;
+    if (!drag || !cameraRect) return;
+
+    const canvas = e.currentTarget;
+    const dx = (e.clientX - drag.x) / canvas.clientWidth;
+    const dy = (e.clientY - drag.y) / canvas.clientHeight;
+    dragRef.current = { ...drag, x: e.clientX, y: e.clientY };
+
+    if (drag.target === 'bubble') {
+      // Moved through the ref while dragging, committed to state on release
+      const center = {
+        x: (cameraRect.x + cameraRect.width / 2) / canvas.width + dx,
+        y: (cameraRect.y + cameraRect.height / 2) / canvas.height + dy,
+      };
+      screenLayoutRef.current = { ...screenLayoutRef.current, bubbleCenter: center };
+      return;
+    }
+
+    // Drag is relative to the camera's part of the frame
+    onPan(dx * canvas.width / cameraRect.width, dy * canvas.height / cameraRect.height);
+  };
+
+  const onPointerUp = () => {
+    if (dragRef.current?.target === 'bubble') {
+      onScreenLayoutChange({ bubbleCenter: screenLayoutRef.current.bubbleCenter });
+    }
+    dragRef.current = null;
+  };
+
+  // Wheel zooms the camera, or resizes it when it's the bubble
+  const onWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+    const rects = layoutRectsRef.current;
+    const point = toCanvasPoint(e);
+    if (!rects || !isInRect(rects.camera, point.x, point.y)) return;
+    if (rects.isBubble) {
+      const step = e.deltaY < 0 ? BUBBLE_WHEEL_STEP : -BUBBLE_WHEEL_STEP;
+      onScreenLayoutChange({ bubbleSize: clampBubbleSize(screenLayoutRef.current.bubbleSize + step) });
+      return;
+    }
+    onZoom(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP);
+  };
+
+  return { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp, onWheel };
+};
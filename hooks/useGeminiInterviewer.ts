@@ -1,143 +1,324 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
+import { 
+  InterviewerConnectionState, 
+  InterviewerPersona, 
+  InterviewerVoiceMode, 
+  InterviewQuestion, 
+  SpeakerTurn,
+  TakeContext
+} from '../types';
+import { buildSystemInstruction, buildTakeContext } from '../utils/interviewerPrompt';
+import { createPcmPlayer, PcmPlayer } from '../utils/pcmPlayer';
+import { CAPTURE_SAMPLE_RATE, CaptureBatch, createCaptureNode, pcmToBase64 } from '../utils/captureWorklet';
+
+// How long a finished question stays on screen before it fades out
+export const DEFAULT_QUESTION_FADE_MS = 12000;
+
+// Sent when recording resumes so the AI picks up where it left off
+const RESUME_NOTE = 'The speaker took a short break and is recording again. ' +
+  'Continue the same conversation, do not start over with opening questions.';
+
+// Sent when the speaker asks for the next question by shortcut or voice command
+const NEXT_QUESTION_NOTE = 'The speaker is done with this question. Ask the next one now, briefly.';
+
+// Sent in hybrid mode when the speaker moves to another point of their outline
+const buildPointNote = (point: string) =>
+  `The speaker moved on to this point of their outline: "${point}". Keep your prompts about it.`;
+
+// Mic level (RMS) that counts as the user talking over the AI's voice
+const BARGE_IN_RMS = 0.05;
+
+// A silence this long in the speaker's transcription starts a new paragraph
+const SPEAKER_PARAGRAPH_GAP_MS = 5000;
+
+// Reconnect backoff: 1s, 2s, 4s ... capped, then give up
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+// How many earlier questions the AI is reminded of after reconnecting
+const RECAP_QUESTION_COUNT = 5;
+
+const reconnectDelay = (attempt: number) => {
+  const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+  return delay * (0.8 + Math.random() * 0.4); // jitter
+};
+
+const buildRecap = (questions: InterviewQuestion[]) => {
+  const recent = questions.slice(-RECAP_QUESTION_COUNT);
+  if (recent.length === 0) return '';
+  return [
+    '',
+    'The connection dropped briefly and you are continuing an interview that is already under way.',
+    'Your most recent questions were:',
+    ...recent.map(q => `- ${q.text}`),
+    'Do not repeat them or start over, carry on from where the conversation was.',
+  ].join('\n');
+};
+
+const describeError = (err: unknown) => {
+  if (err instanceof Error) return err.message;
+  if (err && typeof err === 'object' && 'message' in err) return String((err as { message: unknown }).message);
+  return 'Unknown error';
+};
 
 interface UseGeminiInterviewerProps {
   isActive: boolean;
+  persona: InterviewerPersona; // Read when the session connects
+  scriptOutline?: string[]; // Hybrid mode: the speaker's own outline, also read on connect
+  takeContext?: TakeContext; // Where the previous take of the shoot left off, read on connect
+  isPaused?: boolean; // Session stays open but no audio is sent
+  voiceMode?: InterviewerVoiceMode;
   audioStream: MediaStream | null;
+  questionFadeMs?: number; // 0 keeps the question until the next turn replaces it
+  onSpeakerText?: (text: string) => void; // Live transcription of the speaker, as it arrives
 }
 
-export const useGeminiInterviewer = ({ isActive, audioStream }: UseGeminiInterviewerProps) => {
+export const useGeminiInterviewer = ({ 
+  isActive, 
+  persona,
+  scriptOutline = [],
+  takeContext,
+  isPaused = false,
+  voiceMode = InterviewerVoiceMode.SILENT,
+  audioStream, 
+  questionFadeMs = DEFAULT_QUESTION_FADE_MS,
+  onSpeakerText
+}: UseGeminiInterviewerProps) => {
   const [currentQuestion, setCurrentQuestion] = useState<string>("");
-  const [isConnected, setIsConnected] = useState(false);
+  const [questions, setQuestions] = useState<InterviewQuestion[]>([]);
+  const [speakerTurns, setSpeakerTurns] = useState<SpeakerTurn[]>([]);
+  const [isAsking, setIsAsking] = useState(false);
+  const [connectionState, setConnectionState] = useState<InterviewerConnectionState>(InterviewerConnectionState.IDLE);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
   const sessionRef = useRef<any>(null);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const retryRef = useRef<(() => void) | null>(null);
+  // The latest history, read when rebuilding the instruction on reconnect
+  const questionsRef = useRef<InterviewQuestion[]>([]);
+  // The AI turn currently being transcribed, null between turns
+  const turnRef = useRef<{ text: string; startedAt: number } | null>(null);
+  // What the speaker is currently saying, closed when the AI answers or they pause
+  const speakerTurnRef = useRef<SpeakerTurn | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const captureNodeRef = useRef<AudioWorkletNode | null>(null);
   const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const isPausedRef = useRef(isPaused);
+  isPausedRef.current = isPaused;
+  const voiceModeRef = useRef(voiceMode);
+  voiceModeRef.current = voiceMode;
+  const onSpeakerTextRef = useRef(onSpeakerText);
+  onSpeakerTextRef.current = onSpeakerText;
+  const playerRef = useRef<PcmPlayer | null>(null);
+
+  // The player lives as long as the hook so its stream can be mixed into a recording
+  // before the session has even connected
+  const getPlayer = useCallback(() => {
+    if (!playerRef.current) playerRef.current = createPcmPlayer();
+    return playerRef.current;
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      playerRef.current?.close();
+      playerRef.current = null;
+    };
+  }, []);
 
   // Helper to encode audio for Gemini
-  const createBlob = (data: Float32Array) => {
-    const l = data.length;
-    const int16 = new Int16Array(l);
-    for (let i = 0; i < l; i++) {
-      int16[i] = data[i] * 32768;
-    }
-    
-    // Custom manual encoding to base64 to avoid external lib dependency
-    let binary = '';
-    const bytes = new Uint8Array(int16.buffer);
-    const len = bytes.byteLength;
-    for (let i = 0; i < len; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-    
+  const createBlob = (pcm: Int16Array) => {
     return {
-      data: btoa(binary),
-      mimeType: 'audio/pcm;rate=16000',
+      data: pcmToBase64(pcm),
+      mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`,
     };
   };
 
+  // The history belongs to the take: a new mic stream mid-take reconnects but keeps it
+  const wasActiveRef = useRef(false);
+
   useEffect(() => {
+    const isNewTake = isActive && !wasActiveRef.current;
+    wasActiveRef.current = isActive;
     let mounted = true;
+    // Only true while the current session is open, batches are dropped otherwise
+    let isLive = false;
+    // Set when the speaker talks over the AI, the rest of that answer is not played
+    let isBargedIn = false;
 
     const connectToGemini = async () => {
-      if (!isActive || !audioStream || !process.env.API_KEY) return;
+      if (!isActive || !audioStream) return;
+      if (!process.env.API_KEY) {
+        setConnectionState(InterviewerConnectionState.NO_KEY);
+        setConnectionError("No Gemini API key configured. Set GEMINI_API_KEY to enable the AI interviewer.");
+        return;
+      }
 
       try {
         const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+        if (voiceModeRef.current !== InterviewerVoiceMode.SILENT) {
+          getPlayer().resume();
+        }
         
-        // 1. Setup Audio Context for recording input
+        // A new take starts with a clean question history
+        turnRef.current = null;
+        speakerTurnRef.current = null;
+        if (isNewTake) {
+          questionsRef.current = [];
+          setQuestions([]);
+          setSpeakerTurns([]);
+        }
+        setConnectionError(null);
+        setConnectionState(InterviewerConnectionState.CONNECTING);
+
+        // 1. Setup Audio Context for recording input.
+        // It runs at the device rate, the capture worklet resamples to 16 kHz.
         const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-        const audioCtx = new AudioContextClass({ sampleRate: 16000 });
+        const audioCtx: AudioContext = new AudioContextClass();
         audioContextRef.current = audioCtx;
 
+        const handleBatch = ({ pcm, rms }: CaptureBatch) => {
+          if (isPausedRef.current || !isLive || !sessionRef.current) return;
+
+          // Barge-in: stop the AI's voice as soon as the user talks over it
+          const player = playerRef.current;
+          if (player?.isPlaying() && rms > BARGE_IN_RMS) {
+            player.stop();
+            isBargedIn = true;
+          }
+
+          const blob = createBlob(pcm);
+          sessionRef.current.then((session: any) => {
+            session.sendRealtimeInput({ media: blob });
+          });
+        };
+        const captureNode = await createCaptureNode(audioCtx, handleBatch);
+        if (!mounted) {
+          captureNode.port.onmessage = null;
+          return;
+        }
+
+        // The mic pipeline outlives individual sessions, so it survives reconnects
+        const source = audioCtx.createMediaStreamSource(audioStream);
+        source.connect(captureNode);
+        sourceRef.current = source;
+        captureNodeRef.current = captureNode;
+
         // 2. Connect to Gemini Live
-        const sessionPromise = ai.live.connect({
-          model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-          callbacks: {
-            onopen: () => {
-              console.log('Gemini Connected');
-              if (mounted) setIsConnected(true);
-              
-              // Start streaming audio
-              const source = audioCtx.createMediaStreamSource(audioStream);
-              const processor = audioCtx.createScriptProcessor(4096, 1, 1);
-              
-              processor.onaudioprocess = (e) => {
-                const inputData = e.inputBuffer.getChannelData(0);
-                const blob = createBlob(inputData);
-                sessionPromise.then(session => {
-                   session.sendRealtimeInput({ media: blob });
-                });
-              };
-
-              source.connect(processor);
-              processor.connect(audioCtx.destination); // Required for script processor to run
-              
-              sourceRef.current = source;
-              scriptProcessorRef.current = processor;
-            },
-            onmessage: (message: LiveServerMessage) => {
-              // We rely on outputTranscription to get the "Questions"
-              // We ignore audio output because the AI is a "silent host" via text overlay
-              if (message.serverContent?.outputTranscription) {
-                const text = message.serverContent.outputTranscription.text;
+        const openSession = (attempt: number) => {
+          isLive = false;
+          isBargedIn = false;
+          setConnectionState(attempt === 0 ? InterviewerConnectionState.CONNECTING : InterviewerConnectionState.RECONNECTING);
+
+          // Each attempt gets its own flag so a stale session's close can't trigger another retry
+          let settled = false;
+          const handleDrop = (err?: unknown) => {
+            if (!mounted || settled) return;
+            settled = true;
+            isLive = false;
+            completeTurn();
+            if (err) setConnectionError(`AI interviewer error: ${describeError(err)}`);
+
+            if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+              setConnectionState(InterviewerConnectionState.FAILED);
+              setConnectionError(prev => prev ?? "Lost connection to the AI interviewer.");
+              return;
+            }
+            setConnectionState(InterviewerConnectionState.RECONNECTING);
+            reconnectTimerRef.current = setTimeout(() => openSession(attempt + 1), reconnectDelay(attempt));
+          };
+
+          const sessionPromise = ai.live.connect({
+            model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+            callbacks: {
+              onopen: () => {
+                if (!mounted) return;
+                isLive = true;
+                setConnectionState(InterviewerConnectionState.LIVE);
+                setConnectionError(null);
+                // A stable session earns a fresh set of retries
+                attempt = 0;
+              },
+              onmessage: (message: LiveServerMessage) => {
+                // We rely on outputTranscription to get the "Questions"
+                // Audio output is only played when the interviewer is allowed to speak
+                if (!mounted) return;
+                const content = message.serverContent;
+
+                if (voiceModeRef.current !== InterviewerVoiceMode.SILENT && !isPausedRef.current && !isBargedIn) {
+                  content?.modelTurn?.parts?.forEach(part => {
+                    if (part.inlineData?.data) getPlayer().enqueue(part.inlineData.data);
+                  });
+                }
+
+                // The server noticed the user speaking, drop the rest of the answer
+                if (content?.interrupted) {
+                  playerRef.current?.stop();
+                }
+
+                const heard = content?.inputTranscription?.text;
+                if (heard) {
+                  appendSpeakerText(heard);
+                  onSpeakerTextRef.current?.(heard);
+                }
+
+                const text = content?.outputTranscription?.text;
                 if (text) {
-                    setCurrentQuestion(prev => {
-                        // If it seems like a new sentence, maybe clear old? 
-                        // For simplicity, we just append until turn complete, 
-                        // but actually replacing is better for a "teleprompter" feel 
-                        // if the chunks are small. 
-                        // However, Gemini sends partials.
-                        return prev + text;
-                    });
+                  // The AI answering ends whatever the speaker was saying
+                  completeSpeakerTurn();
+                  if (!turnRef.current) {
+                    // First chunk of a new AI turn replaces the previous question
+                    turnRef.current = { text: '', startedAt: Date.now() };
+                    setIsAsking(true);
+                  }
+                  turnRef.current.text += text;
+                  setCurrentQuestion(turnRef.current.text);
                 }
-              }
 
-              if (message.serverContent?.turnComplete) {
-                 // Turn is done. We keep the question on screen until the next one starts?
-                 // Or we could clear it after a delay. 
-                 // Let's leave it so the user can read it.
-                 // But we might want to clear the accumulator if we were accumulating.
-                 // Actually, let's clear the previous question when a NEW turn starts (handled by resetting in onmessage logic if needed, 
-                 // but simple accumulation + clear on new user speech is hard to detect without VAD).
-                 // Instead, let's just use the text stream.
-                 console.log("Turn complete");
+                // An interrupted turn still counts as finished, whatever made it to screen is kept
+                if (content?.turnComplete || content?.interrupted) {
+                  completeTurn();
+                  // The next answer is played again
+                  isBargedIn = false;
+                }
+              },
+              onclose: (e: CloseEvent) => {
+                // A clean close from the server still means the interview stopped mid-way
+                handleDrop(e?.reason ? new Error(e.reason) : undefined);
+              },
+              onerror: (err) => {
+                handleDrop(err);
               }
             },
-            onclose: () => {
-              console.log('Gemini Disconnected');
-              if (mounted) setIsConnected(false);
-            },
-            onerror: (err) => {
-              console.error('Gemini Error', err);
-              if (mounted) setIsConnected(false);
+            config: {
+              responseModalities: [Modality.AUDIO], // Required by API even in silent mode
+              speechConfig: {
+                  voiceConfig: { prebuiltVoiceConfig: { voiceName: persona.voiceName } }
+              },
+              outputAudioTranscription: {}, // Request text transcription of the AI's response
+              inputAudioTranscription: {},  // And of the speaker, for the transcript
+              // Whenever questions were already asked (reconnect, retry, new mic) the AI gets
+              // a recap so it keeps the thread
+              systemInstruction: buildSystemInstruction(persona, scriptOutline) + 
+                buildTakeContext(takeContext) +
+                buildRecap(questionsRef.current),
             }
-          },
-          config: {
-            responseModalities: [Modality.AUDIO], // Required by API even if we ignore audio
-            speechConfig: {
-                voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
-            },
-            outputAudioTranscription: {}, // Request text transcription of the AI's response
-            systemInstruction: `
-              You are a friendly, curious, and insightful video podcast interviewer.
-              Your job is to listen to the user recording a video log.
-              Provide short, inspiring questions or prompts to guide them.
-              
-              Rules:
-              1. Keep your responses VERY SHORT (max 15 words).
-              2. Do not say "Hello" or "Welcome". Jump straight to a relevant question based on what they said.
-              3. If they are silent for a while, ask a fun topic starter.
-              4. Your output will be displayed as text on screen, so make it punchy and readable.
-              5. Act like a "Title Card" that pops up.
-            `,
-          }
-        });
+          });
+
+          sessionRef.current = sessionPromise;
+          sessionPromise.catch(err => handleDrop(err));
+        };
 
-        sessionRef.current = sessionPromise;
+        retryRef.current = () => {
+          if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+          setConnectionError(null);
+          openSession(0);
+        };
+        openSession(0);
 
       } catch (error) {
-        console.error("Failed to initialize Gemini:", error);
+        if (!mounted) return;
+        setConnectionState(InterviewerConnectionState.FAILED);
+        setConnectionError(`Could not start the AI interviewer: ${describeError(error)}`);
       }
     };
 
@@ -154,43 +335,112 @@ export const useGeminiInterviewer = ({ isActive, audioStream }: UseGeminiIntervi
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isActive, audioStream]);
 
-  // If the question gets too long or a new interaction starts, we might want to manage the text display.
-  // For this MV, we will clear the text when the user starts speaking again? 
-  // No, we don't have VAD for user.
-  // We will auto-clear the question after a long timeout or when a new one comes.
+  // No talking while paused or after switching to silent
+  useEffect(() => {
+    if (isPaused || voiceMode === InterviewerVoiceMode.SILENT) {
+      playerRef.current?.stop();
+    }
+  }, [isPaused, voiceMode]);
+
+  // Remind the AI of the ongoing conversation when recording resumes
+  const wasPausedRef = useRef(isPaused);
   useEffect(() => {
-     if (currentQuestion) {
-         const timeout = setTimeout(() => {
-             // Optional: fade out logic could go here
-         }, 10000);
-         return () => clearTimeout(timeout);
-     }
-  }, [currentQuestion]);
-
-  // Refine the question display: if the string gets very long, it's likely multiple sentences. 
-  // We only show the latest valid sentence or clear it when a new 'turn' implies a new question.
-  // Since we append, let's try to detect if we should clear. 
-  // Actually, let's just clear "currentQuestion" automatically right before we *start* receiving a new response?
-  // Hard to detect "start" of response in the simple callback. 
-  // Workaround: We will just display whatever comes in. 
-
-  // Better approach for UI: 
-  // We want the text to appear fresh. 
-  // Let's rely on the fact that we can reset currentQuestion if the previous one is 'stale' (e.g. > 5 seconds old) 
-  // AND we get new text.
-  
+    const resumed = wasPausedRef.current && !isPaused;
+    wasPausedRef.current = isPaused;
+    if (!resumed || !sessionRef.current) return;
+
+    sessionRef.current.then((session: any) => {
+      session.sendClientContent({ 
+        turns: [{ role: 'user', parts: [{ text: RESUME_NOTE }] }], 
+        turnComplete: false 
+      });
+    }).catch(() => {}); // A failed session is handled by the reconnect logic
+  }, [isPaused]);
+
+  const askNextQuestion = useCallback(() => {
+    if (!sessionRef.current || isPausedRef.current) return;
+    setCurrentQuestion("");
+    sessionRef.current.then((session: any) => {
+      session.sendClientContent({ 
+        turns: [{ role: 'user', parts: [{ text: NEXT_QUESTION_NOTE }] }], 
+        turnComplete: true 
+      });
+    }).catch(() => {}); // A failed session is handled by the reconnect logic
+  }, []);
+
+  // Hybrid mode: keep the AI on the point the speaker is at, without asking for an answer
+  const notePoint = useCallback((point: string) => {
+    if (!sessionRef.current || isPausedRef.current) return;
+    sessionRef.current.then((session: any) => {
+      session.sendClientContent({ 
+        turns: [{ role: 'user', parts: [{ text: buildPointNote(point) }] }], 
+        turnComplete: false 
+      });
+    }).catch(() => {}); // A failed session is handled by the reconnect logic
+  }, []);
+
+  // Fade out a finished question once it has been on screen long enough.
+  // While the AI is still talking the question stays up.
+  useEffect(() => {
+    if (!currentQuestion || isAsking || questionFadeMs <= 0) return;
+    const timeout = setTimeout(() => setCurrentQuestion(""), questionFadeMs);
+    return () => clearTimeout(timeout);
+  }, [currentQuestion, isAsking, questionFadeMs]);
+
+  // Moves the in-flight turn into the history
+  const completeTurn = () => {
+    const turn = turnRef.current;
+    turnRef.current = null;
+    setIsAsking(false);
+
+    const text = turn?.text.trim();
+    if (!turn || !text) return;
+    const question = { text, startedAt: turn.startedAt, completedAt: Date.now() };
+    questionsRef.current = [...questionsRef.current, question];
+    setQuestions(questionsRef.current);
+  };
+
+  const appendSpeakerText = (text: string) => {
+    const now = Date.now();
+    const turn = speakerTurnRef.current;
+    if (turn && now - turn.endedAt > SPEAKER_PARAGRAPH_GAP_MS) {
+      completeSpeakerTurn();
+    }
+    if (!speakerTurnRef.current) {
+      speakerTurnRef.current = { text: '', startedAt: now, endedAt: now };
+    }
+    speakerTurnRef.current.text += text;
+    speakerTurnRef.current.endedAt = now;
+  };
+
+  const completeSpeakerTurn = () => {
+    const turn = speakerTurnRef.current;
+    speakerTurnRef.current = null;
+    if (!turn || !turn.text.trim()) return;
+    setSpeakerTurns(prev => [...prev, { ...turn, text: turn.text.trim() }]);
+  };
+
   const cleanup = () => {
-    setIsConnected(false);
+    setConnectionState(InterviewerConnectionState.IDLE);
+    retryRef.current = null;
+    if (reconnectTimerRef.current) {
+        clearTimeout(reconnectTimerRef.current);
+        reconnectTimerRef.current = null;
+    }
+    playerRef.current?.stop();
     setCurrentQuestion("");
+    completeTurn();
+    completeSpeakerTurn();
     
     if (sessionRef.current) {
-        sessionRef.current.then((s: any) => s.close && s.close());
+        sessionRef.current.then((s: any) => s.close && s.close()).catch(() => {});
         sessionRef.current = null;
     }
     
-    if (scriptProcessorRef.current) {
-        scriptProcessorRef.current.disconnect();
-        scriptProcessorRef.current = null;
+    if (captureNodeRef.current) {
+        captureNodeRef.current.port.onmessage = null;
+        captureNodeRef.current.disconnect();
+        captureNodeRef.current = null;
     }
     
     if (sourceRef.current) {
@@ -204,13 +454,18 @@ export const useGeminiInterviewer = ({ isActive, audioStream }: UseGeminiIntervi
     }
   };
 
-  // Improved text handling: Whenever the text updates, we just show it. 
-  // If the API sends a huge block, we might want to trim.
-  // But since we instructed it to be short, it should be fine.
-  
-  // Hack to clear buffer when a new turn starts:
-  // We can't easily detect "start of turn" from the partial stream easily without maintaining state.
-  // We will accept the stream as is.
-
-  return { isConnected, currentQuestion: currentQuestion.trim(), setCurrentQuestion };
+  return { 
+    isConnected: connectionState === InterviewerConnectionState.LIVE, 
+    connectionState,
+    connectionError,
+    retry: () => retryRef.current?.(),
+    currentQuestion: currentQuestion.trim(), 
+    setCurrentQuestion, 
+    questions, 
+    speakerTurns,
+    isAsking,
+    askNextQuestion,
+    notePoint,
+    getVoiceStream: () => getPlayer().stream
+  };
 };
\ No newline at end of file
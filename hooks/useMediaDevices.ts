@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DeviceSettings } from '../types';
+import { loadDeviceSettings, saveDeviceSettings } from '../services/devices';
+
+// Cameras and mics on this machine plus the user's saved choice, kept in sync with plugging in/out.
+// Labels stay empty until a stream has been granted, so pass it in to re-enumerate afterwards.
+export const useMediaDevices = (stream: MediaStream | null) => {
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
+  const [settings, setSettings] = useState<DeviceSettings>(loadDeviceSettings);
+
+  useEffect(() => {
+    saveDeviceSettings(settings);
+  }, [settings]);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      setCameras(devices.filter(d => d.kind === 'videoinput' && d.deviceId));
+      setMicrophones(devices.filter(d => d.kind === 'audioinput' && d.deviceId));
+    } catch (err) {
+      console.error("Failed to list media devices:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, stream]);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices) return;
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  const updateSettings = (patch: Partial<DeviceSettings>) => {
+    setSettings(prev => ({ ...prev, ...patch }));
+  };
+
+  return { cameras, microphones, settings, updateSettings };
+};
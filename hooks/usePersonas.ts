@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { InterviewerPersona } from '../types';
+import { 
+  BUILT_IN_PERSONAS, 
+  DEFAULT_PERSONA, 
+  loadCustomPersonas, 
+  loadSelectedPersonaId, 
+  saveCustomPersonas, 
+  saveSelectedPersonaId 
+} from '../services/personas';
+
+// Built-in presets plus the user's own personas, persisted in localStorage
+export const usePersonas = () => {
+  const [customPersonas, setCustomPersonas] = useState<InterviewerPersona[]>(loadCustomPersonas);
+  const [selectedId, setSelectedId] = useState<string>(loadSelectedPersonaId);
+
+  const personas = [...BUILT_IN_PERSONAS, ...customPersonas];
+  const selectedPersona = personas.find(p => p.id === selectedId) ?? DEFAULT_PERSONA;
+
+  useEffect(() => {
+    saveSelectedPersonaId(selectedPersona.id);
+  }, [selectedPersona.id]);
+
+  const updateCustomPersonas = (update: (prev: InterviewerPersona[]) => InterviewerPersona[]) => {
+    const next = update(customPersonas);
+    setCustomPersonas(next);
+    saveCustomPersonas(next);
+  };
+
+  const savePersona = (persona: InterviewerPersona) => {
+    if (persona.builtIn) return;
+    updateCustomPersonas(prev => prev.some(p => p.id === persona.id)
+      ? prev.map(p => p.id === persona.id ? persona : p)
+      : [...prev, persona]);
+    setSelectedId(persona.id);
+  };
+
+  const deletePersona = (id: string) => {
+    updateCustomPersonas(prev => prev.filter(p => p.id !== id));
+    if (id === selectedId) setSelectedId(DEFAULT_PERSONA.id);
+  };
+
+  return { personas, selectedPersona, selectPersona: setSelectedId, savePersona, deletePersona };
+};
@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from 'react';
+import { ScreenLayoutSettings } from '../types';
+import { loadScreenLayout, saveScreenLayout } from '../services/screenLayout';
+
+// A shared screen plus how it's laid out with the camera. The compositor reads the layout
+// through `layoutRef`, so a bubble drag can move it without re-rendering every frame.
+export const useScreenShare = (onError: (msg: string) => void) => {
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+  const [layout, setLayout] = useState<ScreenLayoutSettings>(loadScreenLayout);
+  const layoutRef = useRef(layout);
+  // Hidden element the compositor draws the screen from
+  const screenVideoRef = useRef<HTMLVideoElement>(null);
+
+  const updateLayout = (patch: Partial<ScreenLayoutSettings>) => {
+    setLayout(prev => {
+      const next = { ...prev, ...patch };
+      saveScreenLayout(next);
+      layoutRef.current = next;
+      return next;
+    });
+  };
+
+  // The browser asks which screen, window or tab. Video only, the mic carries the voice.
+  const startScreenShare = async () => {
+    try {
+      const display = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+      const track = display.getVideoTracks()[0];
+      // Stopped from the browser's own "Stop sharing" bar
+      if (track) track.onended = () => setScreenStream(prev => prev === display ? null : prev);
+      setScreenStream(display);
+    } catch (err) {
+      // Cancelling the picker lands here too, that's not worth a toast
+      if (err instanceof DOMException && err.name === 'NotAllowedError') return;
+      console.error(err);
+      onError("Could not share the screen.");
+    }
+  };
+
+  const stopScreenShare = () => {
+    screenStream?.getTracks().forEach(track => track.stop());
+    setScreenStream(null);
+  };
+
+  useEffect(() => {
+    const screenVideo = screenVideoRef.current;
+    if (!screenVideo) return;
+    screenVideo.srcObject = screenStream;
+    if (screenStream) {
+      screenVideo.play().catch(err => console.error("Failed to play the shared screen:", err));
+    }
+  }, [screenStream]);
+
+  // Sharing ends with the recorder
+  useEffect(() => {
+    return () => screenStream?.getTracks().forEach(track => track.stop());
+  }, [screenStream]);
+
+  return {
+    screenVideoRef,
+    isSharing: !!screenStream,
+    layout,
+    layoutRef,
+    updateLayout,
+    startScreenShare,
+    stopScreenShare,
+  };
+};
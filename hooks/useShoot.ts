@@ -0,0 +1,85 @@
+import { useEffect, useMemo, useState } from 'react';
+import { LibraryTake, ShootSettings, TakeContext } from '../types';
+import {
+  createShootId,
+  listShootTakes,
+  loadCurrentShootId,
+  loadShootSettings,
+  markKeeper,
+  saveCurrentShootId,
+  saveShootSettings
+} from '../services/shoots';
+
+// The takes recorded in the current studio session, plus what carries over into the next one
+export const useShoot = (onError: (msg: string) => void) => {
+  const [shootId, setShootId] = useState<string>(loadCurrentShootId);
+  const [takes, setTakes] = useState<LibraryTake[]>([]);
+  const [settings, setSettings] = useState<ShootSettings>(loadShootSettings);
+
+  useEffect(() => {
+    saveCurrentShootId(shootId);
+    let cancelled = false;
+    listShootTakes(shootId)
+      .then(list => { if (!cancelled) setTakes(list); })
+      .catch(err => console.error("Failed to load the shoot's takes:", err));
+    return () => { cancelled = true; };
+  }, [shootId]);
+
+  const updateSettings = (patch: Partial<ShootSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...patch };
+      saveShootSettings(next);
+      return next;
+    });
+  };
+
+  const nextTakeNumber = takes.reduce((max, t) => Math.max(max, t.takeNumber ?? 0), 0) + 1;
+
+  const takeContext = useMemo<TakeContext | undefined>(() => {
+    const previous = takes[takes.length - 1];
+    if (!previous) return undefined;
+    return {
+      mode: settings.carryOver,
+      takeNumber: nextTakeNumber,
+      previousQuestions: previous.questionCues.map(cue => cue.text),
+    };
+  }, [takes, settings.carryOver, nextTakeNumber]);
+
+  const addTake = (take: LibraryTake) => {
+    setTakes(prev => [...prev.filter(t => t.id !== take.id), take]);
+  };
+
+  const removeTake = (id: string) => {
+    setTakes(prev => prev.filter(t => t.id !== id));
+  };
+
+  const setKeeper = async (id: string | null) => {
+    const previous = takes;
+    setTakes(prev => prev.map(t => ({ ...t, isKeeper: t.id === id })));
+    try {
+      await markKeeper(previous, id);
+    } catch (err) {
+      console.error("Failed to mark the keeper:", err);
+      setTakes(previous);
+      onError("Could not save the keeper.");
+    }
+  };
+
+  const startNewShoot = () => {
+    setTakes([]);
+    setShootId(createShootId());
+  };
+
+  return {
+    shootId,
+    takes,
+    settings,
+    updateSettings,
+    nextTakeNumber,
+    takeContext,
+    addTake,
+    removeTake,
+    setKeeper,
+    startNewShoot,
+  };
+};
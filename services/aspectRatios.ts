@@ -0,0 +1,15 @@
+import { AspectRatio, CustomAspectRatio } from '../types';
+import { loadList, loadText, saveJSON, saveText } from './storage';
+
+const CUSTOM_RATIOS_KEY = 'musecam.aspectRatios';
+const SELECTED_RATIO_KEY = 'musecam.selectedAspectRatio';
+
+export const loadCustomRatios = () =>
+  loadList<CustomAspectRatio>(CUSTOM_RATIOS_KEY, 'custom aspect ratios', r => r.width > 0 && r.height > 0);
+
+export const saveCustomRatios = (ratios: CustomAspectRatio[]) =>
+  saveJSON(CUSTOM_RATIOS_KEY, ratios, 'custom aspect ratios');
+
+export const loadSelectedRatioId = () => loadText(SELECTED_RATIO_KEY, AspectRatio.PORTRAIT_9_16);
+
+export const saveSelectedRatioId = (id: string) => saveText(SELECTED_RATIO_KEY, id);
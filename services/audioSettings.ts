@@ -0,0 +1,21 @@
+import { AudioSettings, LOUDNESS_TARGETS, LoudnessTarget } from '../types';
+import { loadSettings, saveJSON } from './storage';
+
+const AUDIO_SETTINGS_KEY = 'musecam.audio';
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  noiseSuppression: true,
+  highPass: true,
+  compressor: false,
+  gainDb: 0,
+  loudnessTarget: LoudnessTarget.OFF,
+};
+
+export const loadAudioSettings = () =>
+  loadSettings(AUDIO_SETTINGS_KEY, DEFAULT_AUDIO_SETTINGS, 'audio settings', settings => ({
+    ...settings,
+    loudnessTarget: LOUDNESS_TARGETS[settings.loudnessTarget] ? settings.loudnessTarget : DEFAULT_AUDIO_SETTINGS.loudnessTarget,
+  }));
+
+export const saveAudioSettings = (settings: AudioSettings) =>
+  saveJSON(AUDIO_SETTINGS_KEY, settings, 'audio settings');
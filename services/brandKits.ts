@@ -0,0 +1,58 @@
+import { BrandKit } from '../types';
+import { loadList, loadText, saveJSON, saveText } from './storage';
+
+const BRAND_KITS_KEY = 'musecam.brandKits';
+const SELECTED_BRAND_KIT_KEY = 'musecam.selectedBrandKit';
+
+// Logos are stored inline, this keeps one comfortably small
+const MAX_LOGO_SIDE = 512;
+
+export const createBrandKit = (): BrandKit => ({
+  id: crypto.randomUUID(),
+  name: 'My brand',
+  logo: null,
+  logoCorner: 'top-right',
+  logoOpacity: 0.85,
+  accentColor: '#fb7185', // rose-400
+  lowerThird: { enabled: true, name: '', title: '', durationSec: 6 },
+  intro: { enabled: false, title: '', subtitle: '', durationSec: 3 },
+  outro: { enabled: false, title: 'Thanks for watching', subtitle: '', durationSec: 3 },
+});
+
+// A kit saved by an older version gets the defaults for anything added since
+export const loadBrandKits = () =>
+  loadList<BrandKit>(BRAND_KITS_KEY, 'brand kits', kit => typeof kit.id === 'string')
+    .map(kit => ({ ...createBrandKit(), ...kit }));
+
+// False when the storage is full, the kits still work for this session
+export const saveBrandKits = (kits: BrandKit[]) => saveJSON(BRAND_KITS_KEY, kits, 'brand kits');
+
+// Empty means no branding
+export const loadSelectedBrandKitId = () => loadText(SELECTED_BRAND_KIT_KEY, '');
+
+export const saveSelectedBrandKitId = (id: string) => saveText(SELECTED_BRAND_KIT_KEY, id);
+
+// Reads an uploaded image and scales it down to a PNG data URL, keeping transparency
+export const readLogoFile = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.onload = () => {
+    URL.revokeObjectURL(url);
+    const scale = Math.min(1, MAX_LOGO_SIDE / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      reject(new Error("Canvas is not available"));
+      return;
+    }
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    resolve(canvas.toDataURL('image/png'));
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error("That file could not be read as an image."));
+  };
+  image.src = url;
+});
@@ -0,0 +1,53 @@
+// Thin promise wrapper around the app's IndexedDB database
+
+const DB_NAME = 'musecam';
+const DB_VERSION = 2;
+
+export const STORES = {
+  SESSIONS: 'sessions',
+  CHUNKS: 'chunks',
+  TAKES: 'takes',
+  TAKE_MEDIA: 'takeMedia',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.SESSIONS, { keyPath: 'id' });
+    const chunks = db.createObjectStore(STORES.CHUNKS, { autoIncrement: true });
+    chunks.createIndex('sessionId', 'sessionId');
+  }
+  if (oldVersion < 2) {
+    // Metadata and video are split so listing the library doesn't load every video
+    db.createObjectStore(STORES.TAKES, { keyPath: 'id' });
+    db.createObjectStore(STORES.TAKE_MEDIA);
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (e) => upgrade(request.result, e.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry if opening failed (e.g. private mode)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
@@ -0,0 +1,32 @@
+import { DeviceSettings, QualityPreset } from '../types';
+import { loadSettings, saveJSON } from './storage';
+
+const DEVICE_SETTINGS_KEY = 'musecam.devices';
+
+export const DEFAULT_DEVICE_SETTINGS: DeviceSettings = {
+  cameraId: '',
+  micId: '',
+};
+
+// Only the ids are kept, older saves also had a camera resolution that the quality preset now sets
+export const loadDeviceSettings = () =>
+  loadSettings(DEVICE_SETTINGS_KEY, DEFAULT_DEVICE_SETTINGS, 'device settings', ({ cameraId, micId }) => ({
+    cameraId: typeof cameraId === 'string' ? cameraId : '',
+    micId: typeof micId === 'string' ? micId : '',
+  }));
+
+export const saveDeviceSettings = (settings: DeviceSettings) =>
+  saveJSON(DEVICE_SETTINGS_KEY, settings, 'device settings');
+
+// Saved ids are only a preference, an unplugged device falls back to the default one.
+// The camera is asked for a landscape 16:9 frame at the preset's short side.
+export const buildMediaConstraints = (settings: DeviceSettings, preset: QualityPreset): MediaStreamConstraints => {
+  return {
+    video: {
+      width: { ideal: Math.round(preset.shortSide * 16 / 9) },
+      height: { ideal: preset.shortSide },
+      ...(settings.cameraId ? { deviceId: { ideal: settings.cameraId } } : { facingMode: "user" }),
+    },
+    audio: settings.micId ? { deviceId: { ideal: settings.micId } } : true,
+  };
+};
@@ -0,0 +1,14 @@
+import { COLOR_LOOKS, EffectSettings } from '../types';
+import { DEFAULT_EFFECT_SETTINGS } from '../utils/effects';
+import { loadSettings, saveJSON } from './storage';
+
+const EFFECT_SETTINGS_KEY = 'musecam.effects';
+
+export const loadEffectSettings = () =>
+  loadSettings(EFFECT_SETTINGS_KEY, DEFAULT_EFFECT_SETTINGS, 'effect settings', settings => ({
+    ...settings,
+    look: COLOR_LOOKS[settings.look] ? settings.look : DEFAULT_EFFECT_SETTINGS.look,
+  }));
+
+export const saveEffectSettings = (settings: EffectSettings) =>
+  saveJSON(EFFECT_SETTINGS_KEY, settings, 'effect settings');
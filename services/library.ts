@@ -0,0 +1,61 @@
+import { LibraryTake } from '../types';
+import { openDatabase, requestToPromise, STORES, transactionDone } from './db';
+
+export interface LibraryUsage {
+  takesBytes: number;
+  usedBytes: number | null;  // Whole origin, as reported by the browser
+  quotaBytes: number | null;
+}
+
+export const saveTake = async (take: LibraryTake, media: Blob) => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.TAKES, STORES.TAKE_MEDIA], 'readwrite');
+  tx.objectStore(STORES.TAKES).put(take);
+  tx.objectStore(STORES.TAKE_MEDIA).put(media, take.id);
+  await transactionDone(tx);
+};
+
+export const listTakes = async (): Promise<LibraryTake[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.TAKES, 'readonly');
+  const takes = await requestToPromise<LibraryTake[]>(tx.objectStore(STORES.TAKES).getAll());
+  return takes.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getTakeMedia = async (id: string): Promise<Blob> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.TAKE_MEDIA, 'readonly');
+  const media = await requestToPromise<Blob | undefined>(tx.objectStore(STORES.TAKE_MEDIA).get(id));
+  if (!media) throw new Error(`Take ${id} has no media`);
+  return media;
+};
+
+export const updateTake = async (id: string, patch: Partial<Omit<LibraryTake, 'id'>>) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.TAKES, 'readwrite');
+  const takes = tx.objectStore(STORES.TAKES);
+  const take = await requestToPromise<LibraryTake | undefined>(takes.get(id));
+  if (take) {
+    takes.put({ ...take, ...patch });
+  }
+  await transactionDone(tx);
+};
+
+export const renameTake = (id: string, name: string) => updateTake(id, { name });
+
+export const deleteTake = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.TAKES, STORES.TAKE_MEDIA], 'readwrite');
+  tx.objectStore(STORES.TAKES).delete(id);
+  tx.objectStore(STORES.TAKE_MEDIA).delete(id);
+  await transactionDone(tx);
+};
+
+export const getLibraryUsage = async (takes: LibraryTake[]): Promise<LibraryUsage> => {
+  const takesBytes = takes.reduce((sum, t) => sum + t.byteSize + (t.poster?.size ?? 0), 0);
+  if (!navigator.storage?.estimate) {
+    return { takesBytes, usedBytes: null, quotaBytes: null };
+  }
+  const estimate = await navigator.storage.estimate();
+  return { takesBytes, usedBytes: estimate.usage ?? null, quotaBytes: estimate.quota ?? null };
+};
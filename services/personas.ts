@@ -0,0 +1,92 @@
+import { InterviewerPersona, PERSONA_LANGUAGES, PERSONA_VOICES, PersonaTone } from '../types';
+import { loadList, loadText, saveJSON, saveText } from './storage';
+
+const CUSTOM_PERSONAS_KEY = 'musecam.personas';
+const SELECTED_PERSONA_KEY = 'musecam.selectedPersona';
+
+export const BUILT_IN_PERSONAS: InterviewerPersona[] = [
+  {
+    id: 'podcast-host',
+    name: 'Podcast Host',
+    role: 'friendly, curious, and insightful video podcast interviewer',
+    tone: PersonaTone.FRIENDLY,
+    maxWords: 15,
+    language: 'en-US',
+    voiceName: 'Kore',
+    topicBrief: '',
+    questions: [],
+    builtIn: true,
+  },
+  {
+    id: 'product-demo',
+    name: 'Product Demo',
+    role: 'product marketing producer guiding a product walkthrough',
+    tone: PersonaTone.PROFESSIONAL,
+    maxWords: 12,
+    language: 'en-US',
+    voiceName: 'Charon',
+    topicBrief: 'Help the speaker explain the problem, show the key features, and finish with a clear call to action.',
+    questions: [],
+    builtIn: true,
+  },
+  {
+    id: 'testimonial',
+    name: 'Customer Testimonial',
+    role: 'warm interviewer collecting an authentic customer testimonial',
+    tone: PersonaTone.PROBING,
+    maxWords: 15,
+    language: 'en-US',
+    voiceName: 'Aoede',
+    topicBrief: 'Draw out the situation before, what changed, and concrete results. Ask for specific numbers and stories.',
+    questions: [],
+    builtIn: true,
+  },
+  {
+    id: 'vlog-buddy',
+    name: 'Vlog Buddy',
+    role: 'playful friend keeping a personal vlog lively',
+    tone: PersonaTone.PLAYFUL,
+    maxWords: 10,
+    language: 'en-US',
+    voiceName: 'Puck',
+    topicBrief: '',
+    questions: [],
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_PERSONA = BUILT_IN_PERSONAS[0];
+
+// Saved personas are filled in from the default, so a missing or broken field never reaches the prompt
+const toCustomPersona = (saved: Partial<InterviewerPersona>): InterviewerPersona => {
+  const persona = { ...DEFAULT_PERSONA, ...saved, builtIn: false };
+  return {
+    ...persona,
+    name: typeof persona.name === 'string' && persona.name.trim() ? persona.name : 'Untitled persona',
+    role: typeof persona.role === 'string' && persona.role.trim() ? persona.role : DEFAULT_PERSONA.role,
+    tone: Object.values(PersonaTone).includes(persona.tone) ? persona.tone : DEFAULT_PERSONA.tone,
+    language: PERSONA_LANGUAGES.some(l => l.code === persona.language) ? persona.language : DEFAULT_PERSONA.language,
+    voiceName: PERSONA_VOICES.includes(persona.voiceName) ? persona.voiceName : DEFAULT_PERSONA.voiceName,
+    maxWords: Number.isFinite(persona.maxWords) && persona.maxWords > 0 ? persona.maxWords : DEFAULT_PERSONA.maxWords,
+    topicBrief: typeof persona.topicBrief === 'string' ? persona.topicBrief : '',
+    questions: Array.isArray(persona.questions) ? persona.questions.filter(q => typeof q === 'string') : [],
+  };
+};
+
+export const loadCustomPersonas = () =>
+  loadList<InterviewerPersona>(CUSTOM_PERSONAS_KEY, 'saved personas', p => typeof p.id === 'string')
+    .map(toCustomPersona);
+
+export const saveCustomPersonas = (personas: InterviewerPersona[]) =>
+  saveJSON(CUSTOM_PERSONAS_KEY, personas.filter(p => !p.builtIn), 'saved personas');
+
+export const loadSelectedPersonaId = () => loadText(SELECTED_PERSONA_KEY, DEFAULT_PERSONA.id);
+
+export const saveSelectedPersonaId = (id: string) => saveText(SELECTED_PERSONA_KEY, id);
+
+export const createCustomPersona = (base: InterviewerPersona): InterviewerPersona => ({
+  ...base,
+  id: crypto.randomUUID(),
+  name: base.builtIn ? `${base.name} (copy)` : base.name,
+  builtIn: false,
+});
@@ -0,0 +1,136 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { 
+  ChapterMarker, 
+  PostProductionMetadata, 
+  QuestionCue, 
+  SOCIAL_CAPTION_TARGETS, 
+  TranscriptEntry 
+} from '../types';
+import { transcriptToPlainText } from '../utils/transcript';
+import { formatDuration } from '../utils/format';
+import { nearestAspectRatio } from '../utils/aspectRatio';
+
+const MODEL = 'gemini-2.5-flash';
+
+interface PostProductionInput {
+  aspectRatio: string;
+  durationMs: number;
+  questionCues: QuestionCue[];
+  transcript: TranscriptEntry[];
+}
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    chapters: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER, description: 'Seconds from the start of the video' },
+          title: { type: Type.STRING },
+        },
+        required: ['start', 'title'],
+      },
+    },
+    hashtags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    captions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          platform: { type: Type.STRING },
+          text: { type: Type.STRING },
+        },
+        required: ['platform', 'text'],
+      },
+    },
+  },
+  required: ['title', 'description', 'chapters', 'hashtags', 'captions'],
+};
+
+const buildPrompt = ({ aspectRatio, durationMs, questionCues, transcript }: PostProductionInput) => {
+  const targets = SOCIAL_CAPTION_TARGETS[nearestAspectRatio(aspectRatio)];
+  // Fall back to the question track when no speaker transcript was captured
+  const conversation = transcript.length > 0
+    ? transcriptToPlainText(transcript)
+    : questionCues.map(c => `[${formatDuration(c.start * 1000)}] Interviewer: ${c.text}`).join('\n');
+
+  return [
+    'You are a video producer preparing a recorded interview for publishing.',
+    `The video is ${formatDuration(durationMs)} long and framed ${aspectRatio}.`,
+    '',
+    'Write:',
+    '- a short, catchy title (max 70 characters)',
+    '- a description of 2-3 sentences',
+    '- chapter markers where the topic changes; the first chapter starts at 0, times are in seconds',
+    '- 5 to 8 relevant hashtags without the # sign',
+    `- one caption for each of these platforms: ${targets.map(t => `${t.platform} (max ${t.maxChars} characters)`).join(', ')}`,
+    '',
+    'Use the same language as the conversation. Timestamps below are [m:ss].',
+    '',
+    'Conversation:',
+    conversation,
+  ].join('\n');
+};
+
+// Chapters must start at 0, stay inside the video and be in order
+const normalizeChapters = (chapters: ChapterMarker[], durationSeconds: number): ChapterMarker[] => {
+  const sorted = chapters
+    .filter(c => c.title?.trim() && Number.isFinite(c.start))
+    .map(c => ({ start: Math.min(Math.max(0, Math.round(c.start)), durationSeconds), title: c.title.trim() }))
+    .sort((a, b) => a.start - b.start);
+  if (sorted.length > 0) sorted[0].start = 0;
+  return sorted.filter((c, i) => i === 0 || c.start > sorted[i - 1].start);
+};
+
+export const generatePostProduction = async (input: PostProductionInput): Promise<PostProductionMetadata> => {
+  if (!process.env.API_KEY) {
+    throw new Error("No Gemini API key configured. Set GEMINI_API_KEY to generate metadata.");
+  }
+  if (input.transcript.length === 0 && input.questionCues.length === 0) {
+    throw new Error("This take has no transcript or questions to summarize.");
+  }
+
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const response = await ai.models.generateContent({
+    model: MODEL,
+    contents: buildPrompt(input),
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: RESPONSE_SCHEMA,
+    },
+  });
+
+  const parsed = JSON.parse(response.text ?? '{}') as PostProductionMetadata;
+  const targets = SOCIAL_CAPTION_TARGETS[nearestAspectRatio(input.aspectRatio)];
+
+  return {
+    title: parsed.title ?? '',
+    description: parsed.description ?? '',
+    chapters: normalizeChapters(parsed.chapters ?? [], Math.floor(input.durationMs / 1000)),
+    hashtags: (parsed.hashtags ?? []).map(h => h.replace(/^#/, '').trim()).filter(Boolean),
+    // Keep exactly one caption per target platform, trimmed to its limit
+    captions: targets.map(target => {
+      const caption = parsed.captions?.find(c => c.platform.toLowerCase() === target.platform.toLowerCase());
+      return { platform: target.platform, text: (caption?.text ?? '').slice(0, target.maxChars) };
+    }),
+  };
+};
+
+export const buildMetadataExport = (
+  metadata: PostProductionMetadata, 
+  videoFileName: string, 
+  aspectRatio: string, 
+  durationMs: number
+) => {
+  return JSON.stringify({
+    video: videoFileName,
+    aspectRatio,
+    durationSeconds: Math.round(durationMs / 1000),
+    ...metadata,
+    chapters: metadata.chapters.map(c => ({ ...c, timestamp: formatDuration(c.start * 1000) })),
+  }, null, 2);
+};
@@ -0,0 +1,86 @@
+import { RecordingSession } from '../types';
+import { openDatabase, requestToPromise, STORES, transactionDone } from './db';
+
+interface StoredChunk {
+  sessionId: string;
+  seq: number;
+  data: Blob;
+}
+
+export const createSession = async (session: RecordingSession) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.SESSIONS, 'readwrite');
+  tx.objectStore(STORES.SESSIONS).put(session);
+  await transactionDone(tx);
+};
+
+// Appends a chunk and keeps the session's running totals up to date in the same transaction
+export const appendChunk = async (sessionId: string, seq: number, data: Blob) => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.SESSIONS, STORES.CHUNKS], 'readwrite');
+  const chunk: StoredChunk = { sessionId, seq, data };
+  tx.objectStore(STORES.CHUNKS).add(chunk);
+
+  const sessions = tx.objectStore(STORES.SESSIONS);
+  const session = await requestToPromise<RecordingSession | undefined>(sessions.get(sessionId));
+  if (session) {
+    sessions.put({ 
+      ...session, 
+      chunkCount: session.chunkCount + 1, 
+      byteSize: session.byteSize + data.size, 
+      updatedAt: Date.now() 
+    });
+  }
+  await transactionDone(tx);
+};
+
+export const markSessionStopped = async (sessionId: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.SESSIONS, 'readwrite');
+  const sessions = tx.objectStore(STORES.SESSIONS);
+  const session = await requestToPromise<RecordingSession | undefined>(sessions.get(sessionId));
+  if (session) {
+    sessions.put({ ...session, status: 'stopped', updatedAt: Date.now() });
+  }
+  await transactionDone(tx);
+};
+
+export const listSessions = async (): Promise<RecordingSession[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.SESSIONS, 'readonly');
+  const sessions = await requestToPromise<RecordingSession[]>(tx.objectStore(STORES.SESSIONS).getAll());
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+// Reassembles the chunks of a session into a single playable blob
+export const rebuildSession = async (session: RecordingSession): Promise<Blob> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.CHUNKS, 'readonly');
+  const index = tx.objectStore(STORES.CHUNKS).index('sessionId');
+  const chunks = await requestToPromise<StoredChunk[]>(index.getAll(session.id));
+  chunks.sort((a, b) => a.seq - b.seq);
+  return new Blob(chunks.map(c => c.data), { type: session.mimeType });
+};
+
+export const deleteSession = async (sessionId: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.SESSIONS, STORES.CHUNKS], 'readwrite');
+  tx.objectStore(STORES.SESSIONS).delete(sessionId);
+
+  const index = tx.objectStore(STORES.CHUNKS).index('sessionId');
+  const keys = await requestToPromise(index.getAllKeys(sessionId));
+  keys.forEach(key => tx.objectStore(STORES.CHUNKS).delete(key));
+  await transactionDone(tx);
+};
+
+export const newSession = (aspectRatio: string, mimeType: string, extension: string): RecordingSession => ({
+  id: crypto.randomUUID(),
+  startedAt: Date.now(),
+  updatedAt: Date.now(),
+  status: 'recording',
+  aspectRatio,
+  mimeType,
+  extension,
+  chunkCount: 0,
+  byteSize: 0,
+});
@@ -0,0 +1,134 @@
+import { RecordingFormatId, TimeRange } from '../types';
+import { negotiateRecordingFormat } from '../utils/mediaFormats';
+import { keptDuration } from '../utils/editDecision';
+
+export interface RenderedEdit {
+  blob: Blob;
+  mimeType: string;
+  durationMs: number;
+}
+
+// Loading, seeking or playback that makes no progress for this long fails the render
+const STALL_TIMEOUT_MS = 15000;
+// Frames are drawn on a timer, animation frames stop while the tab is in the background
+const FRAME_INTERVAL_MS = 1000 / 30;
+
+const waitFor = (target: EventTarget, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const done = () => {
+      clearTimeout(timeout);
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+    };
+    const onEvent = () => { done(); resolve(); };
+    const onError = () => { done(); reject(new Error(`The video failed while waiting for ${event}`)); };
+    const timeout = setTimeout(() => { done(); reject(new Error(`Timed out waiting for ${event}`)); }, STALL_TIMEOUT_MS);
+    target.addEventListener(event, onEvent);
+    target.addEventListener('error', onError);
+  });
+
+// Plays until the end of the range, drawing each tick into the canvas
+const playRange = (video: HTMLVideoElement, end: number, onFrame: () => void) =>
+  new Promise<void>((resolve, reject) => {
+    let lastTime = video.currentTime;
+    let lastProgressAt = Date.now();
+    const done = () => {
+      clearInterval(interval);
+      video.removeEventListener('error', onError);
+    };
+    const onError = () => { done(); reject(new Error("The video failed during playback")); };
+    const interval = setInterval(() => {
+      onFrame();
+      if (video.currentTime >= end || video.ended) {
+        done();
+        resolve();
+        return;
+      }
+      if (video.currentTime !== lastTime) {
+        lastTime = video.currentTime;
+        lastProgressAt = Date.now();
+      } else if (Date.now() - lastProgressAt > STALL_TIMEOUT_MS) {
+        done();
+        reject(new Error("Playback stalled"));
+      }
+    }, FRAME_INTERVAL_MS);
+    video.addEventListener('error', onError);
+  });
+
+// Re-record only the kept ranges of a take, entirely in the browser: the source is played
+// through a canvas and the element's audio into a fresh MediaRecorder, pausing it over seeks.
+export const renderEdit = async (
+  source: Blob,
+  ranges: TimeRange[],
+  preferredMimeType: string,
+  onProgress: (fraction: number) => void
+): Promise<RenderedEdit> => {
+  const url = URL.createObjectURL(source);
+  const video = document.createElement('video');
+  video.src = url;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  const audioCtx = new AudioContext();
+  try {
+    await waitFor(video, 'loadedmetadata');
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not available");
+
+    // Routing the element into the graph also keeps it off the speakers
+    const audioDestination = audioCtx.createMediaStreamDestination();
+    audioCtx.createMediaElementSource(video).connect(audioDestination);
+
+    const stream = canvas.captureStream(30);
+    audioDestination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+
+    const mimeType = MediaRecorder.isTypeSupported(preferredMimeType)
+      ? preferredMimeType
+      : negotiateRecordingFormat(RecordingFormatId.MP4_H264).mimeType;
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+
+    const total = keptDuration(ranges);
+    let rendered = 0;
+
+    for (const range of ranges) {
+      video.currentTime = range.start;
+      await waitFor(video, 'seeked');
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      if (recorder.state === 'inactive') recorder.start();
+      else recorder.resume();
+
+      await video.play();
+      await playRange(video, range.end, () => {
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        onProgress(Math.min(1, (rendered + video.currentTime - range.start) / total));
+      });
+
+      video.pause();
+      recorder.pause();
+      rendered += range.end - range.start;
+    }
+
+    const stopped = waitFor(recorder, 'stop');
+    recorder.stop();
+    await stopped;
+    onProgress(1);
+
+    const outputType = recorder.mimeType || mimeType || 'video/webm';
+    return { blob: new Blob(chunks, { type: outputType }), mimeType: outputType, durationMs: total * 1000 };
+  } finally {
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+    audioCtx.close();
+    URL.revokeObjectURL(url);
+  }
+};
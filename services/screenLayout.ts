@@ -0,0 +1,14 @@
+import { SCREEN_LAYOUTS, ScreenLayoutSettings } from '../types';
+import { DEFAULT_SCREEN_LAYOUT } from '../utils/screenLayout';
+import { loadSettings, saveJSON } from './storage';
+
+const SCREEN_LAYOUT_KEY = 'musecam.screenLayout';
+
+export const loadScreenLayout = () =>
+  loadSettings(SCREEN_LAYOUT_KEY, DEFAULT_SCREEN_LAYOUT, 'the screen layout', settings => ({
+    ...settings,
+    layout: SCREEN_LAYOUTS[settings.layout] ? settings.layout : DEFAULT_SCREEN_LAYOUT.layout,
+  }));
+
+export const saveScreenLayout = (settings: ScreenLayoutSettings) =>
+  saveJSON(SCREEN_LAYOUT_KEY, settings, 'the screen layout');
@@ -0,0 +1,14 @@
+import { TeleprompterScript } from '../types';
+import { loadSettings, saveJSON } from './storage';
+
+const SCRIPT_KEY = 'musecam.script';
+
+export const DEFAULT_SCRIPT: TeleprompterScript = {
+  text: '',
+  speed: 3,
+  fontSize: 32,
+};
+
+export const loadScript = () => loadSettings(SCRIPT_KEY, DEFAULT_SCRIPT, 'the saved script');
+
+export const saveScript = (script: TeleprompterScript) => saveJSON(SCRIPT_KEY, script, 'the script');
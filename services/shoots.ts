@@ -0,0 +1,44 @@
+import { LibraryTake, ShootSettings, TakeCarryOver } from '../types';
+import { listTakes, updateTake } from './library';
+import { loadSettings, loadText, saveJSON, saveText } from './storage';
+
+const SHOOT_ID_KEY = 'musecam.shootId';
+const SHOOT_SETTINGS_KEY = 'musecam.shootSettings';
+
+export const COUNTDOWN_OPTIONS = [0, 3, 5, 10];
+
+export const DEFAULT_SHOOT_SETTINGS: ShootSettings = {
+  countdownSec: 3,
+  carryOver: TakeCarryOver.CONTINUE,
+};
+
+export const createShootId = () => `shoot-${Date.now()}`;
+
+// The shoot survives a reload so takes keep grouping until "New session"
+export const loadCurrentShootId = () => loadText(SHOOT_ID_KEY, createShootId());
+
+export const saveCurrentShootId = (id: string) => saveText(SHOOT_ID_KEY, id);
+
+export const loadShootSettings = () =>
+  loadSettings(SHOOT_SETTINGS_KEY, DEFAULT_SHOOT_SETTINGS, 'shoot settings', settings => ({
+    countdownSec: COUNTDOWN_OPTIONS.includes(settings.countdownSec) ? settings.countdownSec : DEFAULT_SHOOT_SETTINGS.countdownSec,
+    carryOver: Object.values(TakeCarryOver).includes(settings.carryOver) ? settings.carryOver : DEFAULT_SHOOT_SETTINGS.carryOver,
+  }));
+
+export const saveShootSettings = (settings: ShootSettings) =>
+  saveJSON(SHOOT_SETTINGS_KEY, settings, 'shoot settings');
+
+// Oldest first, so take numbers read left to right
+export const listShootTakes = async (shootId: string): Promise<LibraryTake[]> => {
+  const takes = await listTakes();
+  return takes
+    .filter(t => t.shootId === shootId)
+    .sort((a, b) => (a.takeNumber ?? 0) - (b.takeNumber ?? 0));
+};
+
+// Only one keeper per shoot, picking again moves the mark
+export const markKeeper = async (takes: LibraryTake[], keeperId: string | null) => {
+  await Promise.all(takes
+    .filter(t => !!t.isKeeper !== (t.id === keeperId))
+    .map(t => updateTake(t.id, { isKeeper: t.id === keeperId })));
+};
@@ -0,0 +1,21 @@
+import { SHORTCUT_ACTIONS, ShortcutAction, ShortcutSettings } from '../types';
+import { loadSettings, saveJSON } from './storage';
+
+const SHORTCUTS_KEY = 'musecam.shortcuts';
+
+export const DEFAULT_SHORTCUT_SETTINGS: ShortcutSettings = {
+  bindings: Object.fromEntries(
+    Object.entries(SHORTCUT_ACTIONS).map(([action, config]) => [action, config.defaultKey])
+  ) as Record<ShortcutAction, string>,
+  voiceCommands: false,
+};
+
+// Actions added since the settings were saved get their default key
+export const loadShortcutSettings = () =>
+  loadSettings(SHORTCUTS_KEY, DEFAULT_SHORTCUT_SETTINGS, 'shortcut settings', settings => ({
+    ...settings,
+    bindings: { ...DEFAULT_SHORTCUT_SETTINGS.bindings, ...settings.bindings },
+  }));
+
+export const saveShortcutSettings = (settings: ShortcutSettings) =>
+  saveJSON(SHORTCUTS_KEY, settings, 'shortcut settings');
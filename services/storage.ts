@@ -0,0 +1,61 @@
+// Shared localStorage plumbing for the saved settings and lists. Reads never throw, a missing
+// or broken value falls back to the defaults. Writes return false when the storage is full
+// or blocked, so callers that hold something big can tell the user.
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const loadJSON = <T>(key: string, fallback: T, what: string, parse: (value: unknown) => T | null): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return fallback;
+    return parse(JSON.parse(raw)) ?? fallback;
+  } catch (err) {
+    console.error(`Failed to read ${what}:`, err);
+    return fallback;
+  }
+};
+
+export const saveJSON = (key: string, value: unknown, what: string): boolean => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch (err) {
+    console.error(`Failed to save ${what}:`, err);
+    return false;
+  }
+};
+
+// Settings saved by an older version get the defaults for anything added since
+export const loadSettings = <T extends object>(
+  key: string,
+  defaults: T,
+  what: string,
+  validate: (settings: T) => T = settings => settings
+): T => loadJSON(key, defaults, what, value =>
+  isPlainObject(value) ? validate({ ...defaults, ...value } as T) : null
+);
+
+// Entries that don't look right are dropped, the rest of the list survives
+export const loadList = <T>(key: string, what: string, isValid: (item: any) => boolean): T[] =>
+  loadJSON<T[]>(key, [], what, value => Array.isArray(value) ? value.filter(item => isPlainObject(item) && isValid(item)) : null);
+
+// Plain strings, such as the selected id of something
+export const loadText = (key: string, fallback: string): string => {
+  try {
+    return localStorage.getItem(key) || fallback;
+  } catch (err) {
+    console.error(`Failed to read ${key}:`, err);
+    return fallback;
+  }
+};
+
+export const saveText = (key: string, value: string): boolean => {
+  try {
+    localStorage.setItem(key, value);
+    return true;
+  } catch (err) {
+    console.error(`Failed to save ${key}:`, err);
+    return false;
+  }
+};
@@ -2,7 +2,10 @@ export enum AspectRatio {
   PORTRAIT_9_16 = "9:16",
   LANDSCAPE_16_9 = "16:9",
   PORTRAIT_3_4 = "3:4",
-  SQUARE_1_1 = "1:1"
+  SQUARE_1_1 = "1:1",
+  PORTRAIT_4_5 = "4:5",
+  PORTRAIT_2_3 = "2:3",
+  CINEMA_21_9 = "21:9"
 }
 
 export interface VideoConfig {
@@ -10,9 +13,482 @@ export interface VideoConfig {
   height: number;
 }
 
+// Base frame per ratio, quality presets scale it (see utils/quality.ts)
 export const ASPECT_RATIO_CONFIGS: Record<AspectRatio, VideoConfig> = {
   [AspectRatio.PORTRAIT_9_16]: { width: 405, height: 720 },
   [AspectRatio.LANDSCAPE_16_9]: { width: 720, height: 405 },
   [AspectRatio.PORTRAIT_3_4]: { width: 540, height: 720 },
   [AspectRatio.SQUARE_1_1]: { width: 600, height: 600 },
+  [AspectRatio.PORTRAIT_4_5]: { width: 576, height: 720 },
+  [AspectRatio.PORTRAIT_2_3]: { width: 480, height: 720 },
+  [AspectRatio.CINEMA_21_9]: { width: 840, height: 360 },
 };
+
+export interface InterviewQuestion {
+  text: string;
+  startedAt: number;   // epoch ms of the first transcription chunk
+  completedAt: number; // epoch ms of turnComplete (or interruption)
+}
+
+// Safe area for burned-in overlays, as fractions of the frame.
+// Short-form players cover the bottom of 9:16 with captions and buttons.
+export interface SafeAreaConfig {
+  x: number;
+  top: number;
+  bottom: number;
+}
+
+export const SAFE_AREA_CONFIGS: Record<AspectRatio, SafeAreaConfig> = {
+  [AspectRatio.PORTRAIT_9_16]: { x: 0.08, top: 0.12, bottom: 0.22 },
+  [AspectRatio.LANDSCAPE_16_9]: { x: 0.1, top: 0.08, bottom: 0.12 },
+  [AspectRatio.PORTRAIT_3_4]: { x: 0.08, top: 0.1, bottom: 0.15 },
+  [AspectRatio.SQUARE_1_1]: { x: 0.08, top: 0.08, bottom: 0.12 },
+  [AspectRatio.PORTRAIT_4_5]: { x: 0.08, top: 0.1, bottom: 0.15 },
+  [AspectRatio.PORTRAIT_2_3]: { x: 0.08, top: 0.1, bottom: 0.18 },
+  [AspectRatio.CINEMA_21_9]: { x: 0.12, top: 0.08, bottom: 0.12 },
+};
+
+// A question positioned on the recording timeline, in seconds from recorder.start()
+export interface QuestionCue {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export enum RecordingFormatId {
+  MP4_H264 = "mp4-h264",
+  WEBM_VP9 = "webm-vp9",
+  WEBM_VP8 = "webm-vp8"
+}
+
+export interface RecordingFormat {
+  id: RecordingFormatId;
+  label: string;
+  extension: string;
+  mimeTypes: string[]; // Candidates probed in order, most specific first
+}
+
+// Ranked best-first. MP4 plays everywhere, WebM is the fallback for browsers without an MP4 muxer.
+export const RECORDING_FORMATS: RecordingFormat[] = [
+  {
+    id: RecordingFormatId.MP4_H264,
+    label: 'MP4',
+    extension: 'mp4',
+    mimeTypes: ['video/mp4;codecs=avc1.42E01E,mp4a.40.2', 'video/mp4;codecs=avc1,mp4a', 'video/mp4'],
+  },
+  {
+    id: RecordingFormatId.WEBM_VP9,
+    label: 'WebM VP9',
+    extension: 'webm',
+    mimeTypes: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp9'],
+  },
+  {
+    id: RecordingFormatId.WEBM_VP8,
+    label: 'WebM VP8',
+    extension: 'webm',
+    mimeTypes: ['video/webm;codecs=vp8,opus', 'video/webm;codecs=vp8', 'video/webm'],
+  },
+];
+
+export interface RecordingResult {
+  blob: Blob;
+  mimeType: string;
+  extension: string;
+  fallbackFrom: RecordingFormatId | null; // Set when the preferred format wasn't available
+  questionCues: QuestionCue[];
+  sessionId: string; // Persisted chunks, delete once the take is downloaded or discarded
+  durationMs: number;
+  poster: Blob | null; // Frame grabbed from the canvas shortly after the start
+  transcript: TranscriptEntry[];
+}
+
+// A recording whose chunks are persisted while it is being captured
+export interface RecordingSession {
+  id: string;
+  startedAt: number;
+  updatedAt: number;
+  status: 'recording' | 'stopped'; // 'recording' left behind means the tab crashed or closed
+  aspectRatio: string; // Frame label, e.g. "9:16" or "1200×628"
+  mimeType: string;
+  extension: string;
+  chunkCount: number;
+  byteSize: number;
+}
+
+// A finished take kept in the local library
+export interface LibraryTake {
+  id: string;
+  name: string;
+  createdAt: number;
+  durationMs: number;
+  aspectRatio: string; // Frame label, e.g. "9:16" or "1200×628"
+  mimeType: string;
+  extension: string;
+  byteSize: number;
+  poster: Blob | null;
+  questionCues: QuestionCue[];
+  transcript?: TranscriptEntry[]; // Missing on takes saved before transcripts existed
+  metadata?: PostProductionMetadata;
+  shootId?: string;    // Takes recorded back to back in one studio session
+  takeNumber?: number; // 1-based within the shoot
+  isKeeper?: boolean;  // The take picked when comparing a shoot
+}
+
+export enum PersonaTone {
+  FRIENDLY = "friendly",
+  PROFESSIONAL = "professional",
+  PLAYFUL = "playful",
+  PROBING = "probing"
+}
+
+export interface InterviewerPersona {
+  id: string;
+  name: string;
+  role: string;          // Who the AI is, e.g. "video podcast interviewer"
+  tone: PersonaTone;
+  maxWords: number;      // Upper bound for each on-screen prompt
+  language: string;      // BCP-47 code the prompts are written in
+  voiceName: string;     // Prebuilt Gemini voice
+  topicBrief: string;    // Optional context the AI should steer towards
+  questions: string[];   // Optional questions the AI must work through, in order
+  builtIn: boolean;
+}
+
+export const PERSONA_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const PERSONA_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en-US', label: 'English' },
+  { code: 'es-ES', label: 'Español' },
+  { code: 'fr-FR', label: 'Français' },
+  { code: 'de-DE', label: 'Deutsch' },
+  { code: 'pt-BR', label: 'Português' },
+  { code: 'it-IT', label: 'Italiano' },
+  { code: 'ja-JP', label: '日本語' },
+  { code: 'ko-KR', label: '한국어' },
+  { code: 'zh-CN', label: '中文' },
+];
+
+export enum InterviewerVoiceMode {
+  SILENT = "silent",         // Text prompts only
+  HEADPHONES = "headphones", // Voice is played locally but not recorded
+  RECORDED = "recorded"      // Voice is played and mixed into the recording
+}
+
+export enum InterviewerConnectionState {
+  IDLE = "idle",
+  CONNECTING = "connecting",
+  LIVE = "live",
+  RECONNECTING = "reconnecting",
+  FAILED = "failed",
+  NO_KEY = "no-key"
+}
+
+// What the person being interviewed said, as transcribed by Gemini
+export interface SpeakerTurn {
+  text: string;
+  startedAt: number; // epoch ms
+  endedAt: number;   // epoch ms of the last transcription chunk
+}
+
+export type TranscriptSpeaker = 'speaker' | 'interviewer';
+
+// One line of the two-sided transcript, in seconds on the recording timeline
+export interface TranscriptEntry {
+  speaker: TranscriptSpeaker;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface SocialCaptionTarget {
+  platform: string;
+  maxChars: number;
+}
+
+// Where each framing usually ends up, so captions are written for the right feeds
+export const SOCIAL_CAPTION_TARGETS: Record<AspectRatio, SocialCaptionTarget[]> = {
+  [AspectRatio.PORTRAIT_9_16]: [
+    { platform: 'TikTok', maxChars: 2200 },
+    { platform: 'Instagram Reels', maxChars: 2200 },
+    { platform: 'YouTube Shorts', maxChars: 100 },
+  ],
+  [AspectRatio.LANDSCAPE_16_9]: [
+    { platform: 'YouTube', maxChars: 5000 },
+    { platform: 'LinkedIn', maxChars: 3000 },
+  ],
+  [AspectRatio.PORTRAIT_3_4]: [
+    { platform: 'Instagram Feed', maxChars: 2200 },
+    { platform: 'Facebook', maxChars: 2000 },
+  ],
+  [AspectRatio.SQUARE_1_1]: [
+    { platform: 'Instagram Feed', maxChars: 2200 },
+    { platform: 'LinkedIn', maxChars: 3000 },
+  ],
+  [AspectRatio.PORTRAIT_4_5]: [
+    { platform: 'Instagram Feed', maxChars: 2200 },
+    { platform: 'Facebook', maxChars: 2000 },
+    { platform: 'LinkedIn', maxChars: 3000 },
+  ],
+  [AspectRatio.PORTRAIT_2_3]: [
+    { platform: 'Pinterest', maxChars: 500 },
+    { platform: 'Instagram Feed', maxChars: 2200 },
+  ],
+  [AspectRatio.CINEMA_21_9]: [
+    { platform: 'YouTube', maxChars: 5000 },
+    { platform: 'Vimeo', maxChars: 5000 },
+  ],
+};
+
+export interface ChapterMarker {
+  start: number; // seconds
+  title: string;
+}
+
+export interface SocialCaption {
+  platform: string;
+  text: string;
+}
+
+export interface PostProductionMetadata {
+  title: string;
+  description: string;
+  chapters: ChapterMarker[];
+  hashtags: string[];
+  captions: SocialCaption[];
+}
+
+export interface TimeRange {
+  start: number; // seconds
+  end: number;
+}
+
+// Non-destructive edit of a take: keep [inPoint, outPoint] minus the cuts
+export interface EditDecision {
+  inPoint: number;
+  outPoint: number;
+  cuts: TimeRange[];
+}
+
+// Empty ids mean "whatever the browser picks". The camera resolution follows the quality preset.
+export interface DeviceSettings {
+  cameraId: string;
+  micId: string;
+}
+
+export enum QualityPresetId {
+  HD_720 = '720p',
+  FULL_HD_1080 = '1080p',
+  UHD_4K = '4k',
+}
+
+export interface QualityPreset {
+  id: QualityPresetId;
+  label: string;
+  shortSide: number; // px, the long side follows from the aspect ratio
+  fps: number;
+  videoBitsPerSecond: number;
+  audioBitsPerSecond: number;
+}
+
+export const QUALITY_PRESETS: Record<QualityPresetId, QualityPreset> = {
+  [QualityPresetId.HD_720]: { 
+    id: QualityPresetId.HD_720, label: '720p', shortSide: 720, fps: 30, 
+    videoBitsPerSecond: 5_000_000, audioBitsPerSecond: 128_000 
+  },
+  [QualityPresetId.FULL_HD_1080]: { 
+    id: QualityPresetId.FULL_HD_1080, label: '1080p', shortSide: 1080, fps: 30, 
+    videoBitsPerSecond: 8_000_000, audioBitsPerSecond: 160_000 
+  },
+  [QualityPresetId.UHD_4K]: { 
+    id: QualityPresetId.UHD_4K, label: '4K', shortSide: 2160, fps: 30, 
+    videoBitsPerSecond: 35_000_000, audioBitsPerSecond: 192_000 
+  },
+};
+
+// A user-defined framing: either just a ratio, or an exact output size for a client spec
+export interface CustomAspectRatio {
+  id: string; // "custom:" prefixed so it never collides with an AspectRatio value
+  width: number;
+  height: number;
+  exactSize: boolean;
+}
+
+// The framing the recorder actually works with, built-in or custom
+export interface FrameFormat extends VideoConfig {
+  id: string;
+  label: string;
+  exactSize: boolean; // Render at exactly width × height instead of scaling with the quality preset
+}
+
+export enum ColorLook {
+  NATURAL = 'natural',
+  WARM = 'warm',
+  COOL = 'cool',
+  PASTEL = 'pastel',
+  MACARON = 'macaron',
+}
+
+// Canvas filter for the grade plus an optional wash drawn over the frame
+export const COLOR_LOOKS: Record<ColorLook, { label: string; filter: string; tint: string | null }> = {
+  [ColorLook.NATURAL]: { label: 'Natural', filter: '', tint: null },
+  [ColorLook.WARM]: { label: 'Warm', filter: 'saturate(1.1) sepia(0.15)', tint: 'rgba(255, 170, 90, 0.08)' },
+  [ColorLook.COOL]: { label: 'Cool', filter: 'saturate(0.95) hue-rotate(-8deg)', tint: 'rgba(90, 160, 255, 0.08)' },
+  [ColorLook.PASTEL]: { label: 'Pastel', filter: 'saturate(0.75) brightness(1.06) contrast(0.92)', tint: 'rgba(255, 230, 245, 0.1)' },
+  [ColorLook.MACARON]: { label: 'Macaron', filter: 'saturate(1.05)', tint: 'rgba(255, 230, 240, 0.05)' }, // subtle rose tint
+};
+
+export interface EffectSettings {
+  look: ColorLook;
+  brightness: number; // 1 = unchanged
+  contrast: number;   // 1 = unchanged
+  smoothing: number;  // 0..1
+  vignette: number;   // 0..1
+  backgroundBlur: boolean;
+}
+
+export type WatermarkCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// Full-frame title card shown at the very start or end of a take
+export interface BrandCard {
+  enabled: boolean;
+  title: string;
+  subtitle: string;
+  durationSec: number;
+}
+
+export interface BrandKit {
+  id: string;
+  name: string;
+  logo: string | null; // data URL, downscaled on upload so kits fit in localStorage
+  logoCorner: WatermarkCorner;
+  logoOpacity: number; // 0..1
+  accentColor: string;
+  lowerThird: {
+    enabled: boolean;
+    name: string;
+    title: string;
+    durationSec: number; // Shown for the first N seconds of the take
+  };
+  intro: BrandCard;
+  outro: BrandCard;
+}
+
+// What guides the speaker: improvised AI questions, their own script, or the script plus AI follow-ups
+export enum PromptMode {
+  INTERVIEWER = 'interviewer',
+  TELEPROMPTER = 'teleprompter',
+  HYBRID = 'hybrid',
+}
+
+export interface TeleprompterScript {
+  text: string;  // Plain text or Markdown
+  speed: number; // Scroll speed, 1..10
+  fontSize: number; // px
+}
+
+export type ScriptBlockKind = 'heading' | 'bullet' | 'paragraph';
+
+export interface ScriptBlock {
+  kind: ScriptBlockKind;
+  text: string;
+}
+
+// How the interviewer picks up after the previous take of a shoot
+export enum TakeCarryOver {
+  FRESH = 'fresh',       // Start over as if nothing was recorded
+  REPEAT = 'repeat',     // Ask the last question again, for a better answer
+  CONTINUE = 'continue', // Move on to new questions
+}
+
+export interface TakeContext {
+  mode: TakeCarryOver;
+  takeNumber: number;
+  previousQuestions: string[]; // From the previous take, in order
+}
+
+export interface ShootSettings {
+  countdownSec: number; // 0 starts recording right away
+  carryOver: TakeCarryOver;
+}
+
+// How a shared screen and the camera split the frame
+export enum ScreenLayout {
+  CAMERA = 'camera', // Share kept open but off screen
+  BUBBLE = 'bubble', // Round camera bubble over the screen
+  SPLIT = 'split',   // Side by side, stacked on tall frames
+  SCREEN = 'screen', // Screen only, voice-over
+}
+
+export const SCREEN_LAYOUTS: Record<ScreenLayout, { label: string; icon: string }> = {
+  [ScreenLayout.CAMERA]: { label: 'Camera', icon: '👤' },
+  [ScreenLayout.BUBBLE]: { label: 'Bubble', icon: '⭕' },
+  [ScreenLayout.SPLIT]: { label: 'Split', icon: '◧' },
+  [ScreenLayout.SCREEN]: { label: 'Screen', icon: '🖥' },
+};
+
+export interface ScreenLayoutSettings {
+  layout: ScreenLayout;
+  bubbleCenter: { x: number; y: number } | null; // 0..1 of the frame, null sits in the safe area's bottom-right
+  bubbleSize: number;   // Diameter as a share of the frame's short side
+  splitRatio: number;   // Share of the frame given to the screen
+  cameraFirst: boolean; // Split: camera on the left, or on top when stacked
+}
+
+// Integrated loudness the recorded voice is steered towards
+export enum LoudnessTarget {
+  OFF = 'off',
+  STREAMING = 'streaming',
+  PODCAST = 'podcast',
+  BROADCAST = 'broadcast',
+}
+
+export const LOUDNESS_TARGETS: Record<LoudnessTarget, { label: string; lufs: number | null }> = {
+  [LoudnessTarget.OFF]: { label: 'Off', lufs: null },
+  [LoudnessTarget.STREAMING]: { label: 'Streaming -14', lufs: -14 },
+  [LoudnessTarget.PODCAST]: { label: 'Podcast -16', lufs: -16 },
+  [LoudnessTarget.BROADCAST]: { label: 'Broadcast -23', lufs: -23 },
+};
+
+export interface AudioSettings {
+  noiseSuppression: boolean; // The chain's noise gate, plus the browser's suppressor on the mic track
+  highPass: boolean;   // Cuts rumble below the voice
+  compressor: boolean; // Evens out loud and quiet passages
+  gainDb: number;
+  loudnessTarget: LoudnessTarget;
+}
+
+export interface AudioLevels {
+  loudness: number | null; // Short-term LUFS of the output, null while silent
+  peakDb: number;          // Sample peak of the output, dBFS
+  normalizationDb: number; // What the loudness target currently adds or takes away
+}
+
+export enum ShortcutAction {
+  TOGGLE_RECORD = 'toggleRecord',
+  TOGGLE_PAUSE = 'togglePause',
+  DISMISS_QUESTION = 'dismissQuestion',
+  NEXT_PROMPT = 'nextPrompt',
+  NEXT_RATIO = 'nextRatio',
+}
+
+// `defaultKey` uses the same "Shift+KeyR" form as saved bindings. Only a few actions
+// make sense by voice: the ratio can't change mid-take, and that's when the AI listens.
+// Pause has no phrase, nothing is heard while paused so it couldn't be resumed the same way.
+export const SHORTCUT_ACTIONS: Record<ShortcutAction, { label: string; defaultKey: string; phrases: string[] }> = {
+  [ShortcutAction.TOGGLE_RECORD]: { label: 'Record / stop', defaultKey: 'KeyR', phrases: ['stop recording', 'stop', 'cut'] },
+  [ShortcutAction.TOGGLE_PAUSE]: { label: 'Pause / resume', defaultKey: 'KeyP', phrases: [] },
+  [ShortcutAction.DISMISS_QUESTION]: { label: 'Dismiss question', defaultKey: 'Escape', phrases: ['dismiss', 'hide question', 'clear'] },
+  [ShortcutAction.NEXT_PROMPT]: { label: 'Next prompt', defaultKey: 'KeyN', phrases: ['next question', 'next point', 'next', 'skip'] },
+  [ShortcutAction.NEXT_RATIO]: { label: 'Next aspect ratio', defaultKey: 'KeyA', phrases: [] },
+};
+
+// A shortcut or voice command for something only the recorder can do. `id` makes repeats distinct.
+export interface RecorderCommand {
+  action: ShortcutAction;
+  id: number;
+}
+
+export interface ShortcutSettings {
+  bindings: Record<ShortcutAction, string>;
+  voiceCommands: boolean; // "MuseCam, next question", heard through the interviewer's transcription
+}
@@ -0,0 +1,100 @@
+import { ASPECT_RATIO_CONFIGS, AspectRatio, CustomAspectRatio, FrameFormat } from '../types';
+
+// Anything more extreme than 4:1 leaves nothing of the camera frame worth keeping
+const MAX_RATIO = 4;
+const MIN_EXACT_SIDE = 128;
+const MAX_EXACT_SIDE = 4096; // Largest frame hardware encoders reliably accept
+// Custom ratios get a base frame like the built-ins, quality presets scale it
+const BASE_LONG_SIDE = 720;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+export const isBuiltInRatio = (id: string): id is AspectRatio =>
+  (Object.values(AspectRatio) as string[]).includes(id);
+
+export const customRatioLabel = (ratio: CustomAspectRatio) =>
+  ratio.exactSize ? `${ratio.width}×${ratio.height}` : `${ratio.width}:${ratio.height}`;
+
+// Accepts "4:5", "2.39:1", "4/5" for a ratio and "1200x628" / "1200×628" for an exact size
+export const parseCustomRatio = (input: string): { ratio?: CustomAspectRatio; error?: string } => {
+  const text = input.trim();
+  const exact = text.match(/^(\d+)\s*[x×]\s*(\d+)$/i);
+  const ratio = text.match(/^(\d+(?:\.\d+)?)\s*[:/]\s*(\d+(?:\.\d+)?)$/);
+
+  if (!exact && !ratio) {
+    return { error: 'Use a ratio like 4:5 or an exact size like 1200x628.' };
+  }
+
+  let width: number;
+  let height: number;
+  if (exact) {
+    width = parseInt(exact[1], 10);
+    height = parseInt(exact[2], 10);
+    if (Math.min(width, height) < MIN_EXACT_SIDE || Math.max(width, height) > MAX_EXACT_SIDE) {
+      return { error: `Sizes must be between ${MIN_EXACT_SIDE} and ${MAX_EXACT_SIDE} px per side.` };
+    }
+    if (width % 2 !== 0 || height % 2 !== 0) {
+      return { error: 'Video encoders need even pixel sizes.' };
+    }
+  } else {
+    // Scale decimals up to whole numbers, then reduce: 2.39:1 -> 239:100
+    const a = parseFloat(ratio![1]);
+    const b = parseFloat(ratio![2]);
+    if (a <= 0 || b <= 0) return { error: 'Both sides of the ratio must be above zero.' };
+    const scale = Math.pow(10, Math.max(...[ratio![1], ratio![2]].map(n => (n.split('.')[1] ?? '').length)));
+    const w = Math.round(a * scale);
+    const h = Math.round(b * scale);
+    const divisor = gcd(w, h);
+    width = w / divisor;
+    height = h / divisor;
+  }
+
+  if (width / height > MAX_RATIO || height / width > MAX_RATIO) {
+    return { error: 'Frames wider than 4:1 or taller than 1:4 are not supported.' };
+  }
+
+  const kind = exact ? 'size' : 'ratio';
+  return { ratio: { id: `custom:${kind}:${width}x${height}`, width, height, exactSize: !!exact } };
+};
+
+export const resolveFrame = (id: string, customRatios: CustomAspectRatio[]): FrameFormat => {
+  if (isBuiltInRatio(id)) {
+    return { id, label: id, exactSize: false, ...ASPECT_RATIO_CONFIGS[id] };
+  }
+
+  const custom = customRatios.find(r => r.id === id);
+  if (!custom) return resolveFrame(AspectRatio.PORTRAIT_9_16, customRatios);
+
+  if (custom.exactSize) {
+    return { id, label: customRatioLabel(custom), exactSize: true, width: custom.width, height: custom.height };
+  }
+  const scale = BASE_LONG_SIDE / Math.max(custom.width, custom.height);
+  return {
+    id,
+    label: customRatioLabel(custom),
+    exactSize: false,
+    width: Math.round(custom.width * scale),
+    height: Math.round(custom.height * scale),
+  };
+};
+
+// Closest built-in framing for a stored label, used to borrow its safe area and caption targets
+export const nearestAspectRatio = (label: string): AspectRatio => {
+  if (isBuiltInRatio(label)) return label;
+
+  const [w, h] = label.split(/[:×]/).map(Number);
+  if (!w || !h) return AspectRatio.PORTRAIT_9_16;
+
+  const target = Math.log(w / h);
+  let best = AspectRatio.PORTRAIT_9_16;
+  let bestDistance = Infinity;
+  for (const id of Object.values(AspectRatio)) {
+    const config = ASPECT_RATIO_CONFIGS[id];
+    const distance = Math.abs(Math.log(config.width / config.height) - target);
+    if (distance < bestDistance) {
+      best = id;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
@@ -0,0 +1,178 @@
+import { AudioLevels, AudioSettings, LOUDNESS_TARGETS } from '../types';
+import { createNoiseGateNode } from './noiseGate';
+
+// Web Audio graph between the mic and everything that uses it (recorder, Gemini, meters):
+//
+//   mic → [high-pass] → [noise gate] → [compressor] → gain → normalizer → limiter → output
+//                                          └→ K-weighting → loudness meter
+//
+// The loudness is measured before the normalizer, so the normalizer can steer it to the target.
+// It's an approximation of BS.1770 short-term loudness, good for levelling, not for certification.
+
+export interface AudioChain {
+  stream: MediaStream; // The processed mic, one audio track
+  update: (settings: AudioSettings) => void;
+  readLevels: () => AudioLevels;
+  resume: () => Promise<void>;
+  close: () => void;
+}
+
+const HIGH_PASS_HZ = 80;
+const METER_INTERVAL_MS = 100;
+const SHORT_TERM_MS = 3000;
+// Below this the speaker is silent, don't pump the gain up on room tone
+const SILENCE_GATE_LUFS = -50;
+const MAX_BOOST_DB = 24;
+const MAX_CUT_DB = -12;
+// How fast the normalizer moves, slow enough not to be heard
+const NORMALIZE_DB_PER_TICK = 0.3;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const createAudioChain = (track: MediaStreamTrack, initial: AudioSettings): AudioChain => {
+  const ctx = new AudioContext();
+  const source = ctx.createMediaStreamSource(new MediaStream([track]));
+
+  const highPass = ctx.createBiquadFilter();
+  highPass.type = 'highpass';
+  highPass.frequency.value = HIGH_PASS_HZ;
+
+  // Noise suppression is an AudioWorklet, it joins the graph once loaded and the signal
+  // passes straight through until then
+  const gateInput = ctx.createGain();
+  const gateOutput = ctx.createGain();
+  gateInput.connect(gateOutput);
+  createNoiseGateNode(ctx).then(gate => {
+    if (ctx.state === 'closed') return;
+    gateInput.disconnect();
+    gateInput.connect(gate);
+    gate.connect(gateOutput);
+  }).catch(err => console.error("Noise suppression is not available:", err));
+
+  // Gentle voice compression
+  const compressor = ctx.createDynamicsCompressor();
+  compressor.threshold.value = -24;
+  compressor.knee.value = 12;
+  compressor.ratio.value = 4;
+  compressor.attack.value = 0.005;
+  compressor.release.value = 0.2;
+
+  const gain = ctx.createGain();
+  const normalizer = ctx.createGain();
+
+  // Always in, the normalizer may boost by a lot. Transparent below -1 dBFS.
+  const limiter = ctx.createDynamicsCompressor();
+  limiter.threshold.value = -1;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.001;
+  limiter.release.value = 0.05;
+
+  // K-weighting: head shelf, then the RLB high-pass
+  const shelf = ctx.createBiquadFilter();
+  shelf.type = 'highshelf';
+  shelf.frequency.value = 1500;
+  shelf.gain.value = 4;
+  const rlb = ctx.createBiquadFilter();
+  rlb.type = 'highpass';
+  rlb.frequency.value = 38;
+  rlb.Q.value = 0.5;
+  const loudnessAnalyser = ctx.createAnalyser();
+  loudnessAnalyser.fftSize = 4096;
+
+  const peakAnalyser = ctx.createAnalyser();
+  peakAnalyser.fftSize = 2048;
+  const destination = ctx.createMediaStreamDestination();
+
+  gain.connect(normalizer);
+  normalizer.connect(limiter);
+  limiter.connect(destination);
+  limiter.connect(peakAnalyser);
+  gain.connect(shelf);
+  shelf.connect(rlb);
+  rlb.connect(loudnessAnalyser);
+
+  let settings = initial;
+  let normalizationDb = 0;
+  let shortTerm: number | null = null;
+
+  // Only the optional front of the graph is rewired when settings change
+  const connectFront = () => {
+    source.disconnect();
+    highPass.disconnect();
+    gateOutput.disconnect();
+    compressor.disconnect();
+    let node: AudioNode = source;
+    if (settings.highPass) {
+      node.connect(highPass);
+      node = highPass;
+    }
+    if (settings.noiseSuppression) {
+      node.connect(gateInput);
+      node = gateOutput;
+    }
+    if (settings.compressor) {
+      node.connect(compressor);
+      node = compressor;
+    }
+    node.connect(gain);
+  };
+
+  const update = (next: AudioSettings) => {
+    const needsRewire = next.highPass !== settings.highPass 
+      || next.noiseSuppression !== settings.noiseSuppression
+      || next.compressor !== settings.compressor;
+    settings = next;
+    if (needsRewire) connectFront();
+    gain.gain.setTargetAtTime(dbToGain(settings.gainDb), ctx.currentTime, 0.05);
+  };
+
+  // Sliding window of mean squares, one per meter tick
+  const meanSquares: number[] = [];
+  const loudnessSamples = new Float32Array(loudnessAnalyser.fftSize);
+  const peakSamples = new Float32Array(peakAnalyser.fftSize);
+
+  const measure = () => {
+    loudnessAnalyser.getFloatTimeDomainData(loudnessSamples);
+    let sum = 0;
+    for (let i = 0; i < loudnessSamples.length; i++) sum += loudnessSamples[i] * loudnessSamples[i];
+    meanSquares.push(sum / loudnessSamples.length);
+    if (meanSquares.length > SHORT_TERM_MS / METER_INTERVAL_MS) meanSquares.shift();
+
+    const meanSquare = meanSquares.reduce((a, b) => a + b, 0) / meanSquares.length;
+    const lufs = meanSquare > 0 ? -0.691 + 10 * Math.log10(meanSquare) : -Infinity;
+    shortTerm = lufs > SILENCE_GATE_LUFS ? lufs : null;
+
+    const target = LOUDNESS_TARGETS[settings.loudnessTarget]?.lufs ?? null;
+    const wanted = target === null ? 0 : shortTerm === null ? normalizationDb : clamp(target - shortTerm, MAX_CUT_DB, MAX_BOOST_DB);
+    normalizationDb += clamp(wanted - normalizationDb, -NORMALIZE_DB_PER_TICK, NORMALIZE_DB_PER_TICK);
+    normalizer.gain.setTargetAtTime(dbToGain(normalizationDb), ctx.currentTime, 0.1);
+  };
+
+  const interval = setInterval(measure, METER_INTERVAL_MS);
+  connectFront();
+  gain.gain.value = dbToGain(settings.gainDb);
+
+  const readLevels = (): AudioLevels => {
+    peakAnalyser.getFloatTimeDomainData(peakSamples);
+    let peak = 0;
+    for (let i = 0; i < peakSamples.length; i++) peak = Math.max(peak, Math.abs(peakSamples[i]));
+    return {
+      loudness: shortTerm === null ? null : shortTerm + normalizationDb,
+      peakDb: peak > 0 ? 20 * Math.log10(peak) : -Infinity,
+      normalizationDb,
+    };
+  };
+
+  return {
+    stream: destination.stream,
+    update,
+    readLevels,
+    resume: () => ctx.resume(),
+    close: () => {
+      clearInterval(interval);
+      ctx.close();
+    },
+  };
+};
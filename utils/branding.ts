@@ -0,0 +1,161 @@
+import { BrandCard, BrandKit, SafeAreaConfig, VideoConfig } from '../types';
+
+// Branding drawn onto the recorder canvas: logo watermark, lower-third and intro/outro cards.
+// Everything is sized from the frame so it looks the same at any ratio or quality.
+
+const FONT_FAMILY = 'Quicksand, sans-serif';
+const TEXT_COLOR = '#334155'; // slate-700
+const SUBTEXT_COLOR = '#64748b'; // slate-500
+// Slide in and out of the lower-third, fades of the cards
+export const BRAND_TRANSITION_MS = 500;
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+const clamp01 = (t: number) => Math.min(1, Math.max(0, t));
+
+// Makes sure the uploaded logo keeps its aspect and never dominates the shot
+const fitLogo = (logo: HTMLImageElement, maxSide: number) => {
+  const scale = maxSide / Math.max(logo.naturalWidth, logo.naturalHeight);
+  return { width: logo.naturalWidth * scale, height: logo.naturalHeight * scale };
+};
+
+export const drawWatermark = (
+  ctx: CanvasRenderingContext2D,
+  logo: HTMLImageElement,
+  kit: BrandKit,
+  config: VideoConfig,
+  safeArea: SafeAreaConfig
+) => {
+  if (!logo.complete || !logo.naturalWidth) return;
+  const { width, height } = config;
+  const unit = Math.min(width, height);
+  const size = fitLogo(logo, unit * 0.16);
+  const marginX = width * safeArea.x;
+
+  const x = kit.logoCorner.endsWith('left') ? marginX : width - marginX - size.width;
+  const y = kit.logoCorner.startsWith('top')
+    ? height * safeArea.top
+    : height * (1 - safeArea.bottom) - size.height;
+
+  ctx.save();
+  ctx.globalAlpha = kit.logoOpacity;
+  ctx.drawImage(logo, x, y, size.width, size.height);
+  ctx.restore();
+};
+
+// `elapsedMs` is recorded time, the tag slides in at the start and out after its duration
+export const drawLowerThird = (
+  ctx: CanvasRenderingContext2D,
+  kit: BrandKit,
+  config: VideoConfig,
+  safeArea: SafeAreaConfig,
+  elapsedMs: number
+) => {
+  const { lowerThird } = kit;
+  const durationMs = lowerThird.durationSec * 1000;
+  if (!lowerThird.enabled || !lowerThird.name.trim() || elapsedMs > durationMs) return;
+
+  const shown = Math.min(clamp01(elapsedMs / BRAND_TRANSITION_MS), clamp01((durationMs - elapsedMs) / BRAND_TRANSITION_MS));
+  const eased = easeOutCubic(shown);
+  if (eased <= 0) return;
+
+  const { width, height } = config;
+  const unit = Math.min(width, height);
+  const nameSize = unit * 0.05;
+  const titleSize = unit * 0.032;
+  const padding = unit * 0.03;
+  const barWidth = unit * 0.012;
+
+  ctx.save();
+  ctx.font = `700 ${nameSize}px ${FONT_FAMILY}`;
+  const nameWidth = ctx.measureText(lowerThird.name).width;
+  ctx.font = `600 ${titleSize}px ${FONT_FAMILY}`;
+  const titleWidth = lowerThird.title ? ctx.measureText(lowerThird.title).width : 0;
+
+  const boxWidth = Math.min(width * (1 - safeArea.x * 2), Math.max(nameWidth, titleWidth) + padding * 2 + barWidth);
+  const boxHeight = padding * 2 + nameSize * 1.1 + (lowerThird.title ? titleSize * 1.4 : 0);
+  const x = width * safeArea.x;
+  const y = height * (1 - safeArea.bottom) - boxHeight - unit * 0.22;
+
+  // Slides in from the left edge
+  ctx.globalAlpha = eased;
+  ctx.translate((1 - eased) * -(x + boxWidth), 0);
+
+  ctx.shadowColor = 'rgba(15, 23, 42, 0.18)';
+  ctx.shadowBlur = unit * 0.03;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.92)';
+  ctx.beginPath();
+  ctx.roundRect(x, y, boxWidth, boxHeight, unit * 0.015);
+  ctx.fill();
+  ctx.shadowColor = 'transparent';
+
+  ctx.fillStyle = kit.accentColor;
+  ctx.fillRect(x, y, barWidth, boxHeight);
+
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = TEXT_COLOR;
+  ctx.font = `700 ${nameSize}px ${FONT_FAMILY}`;
+  ctx.fillText(lowerThird.name, x + barWidth + padding, y + padding, boxWidth - barWidth - padding * 2);
+  if (lowerThird.title) {
+    ctx.fillStyle = SUBTEXT_COLOR;
+    ctx.font = `600 ${titleSize}px ${FONT_FAMILY}`;
+    ctx.fillText(lowerThird.title, x + barWidth + padding, y + padding + nameSize * 1.25, boxWidth - barWidth - padding * 2);
+  }
+  ctx.restore();
+};
+
+// Full-frame title card in the kit's colours, covering the camera at `opacity`
+export const drawBrandCard = (
+  ctx: CanvasRenderingContext2D,
+  card: BrandCard,
+  kit: BrandKit,
+  logo: HTMLImageElement | null,
+  config: VideoConfig,
+  opacity: number
+) => {
+  if (opacity <= 0) return;
+  const { width, height } = config;
+  const unit = Math.min(width, height);
+
+  ctx.save();
+  ctx.globalAlpha = clamp01(opacity);
+
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, '#ffffff');
+  gradient.addColorStop(1, kit.accentColor);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  let y = height * 0.42;
+  if (logo && logo.complete && logo.naturalWidth) {
+    const size = fitLogo(logo, unit * 0.28);
+    ctx.drawImage(logo, (width - size.width) / 2, y - size.height - unit * 0.05, size.width, size.height);
+  }
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = TEXT_COLOR;
+  const titleSize = unit * 0.08;
+  ctx.font = `700 ${titleSize}px ${FONT_FAMILY}`;
+  ctx.fillText(card.title, width / 2, y, width * 0.84);
+  y += titleSize * 1.3;
+
+  if (card.subtitle) {
+    ctx.fillStyle = SUBTEXT_COLOR;
+    ctx.font = `600 ${unit * 0.045}px ${FONT_FAMILY}`;
+    ctx.fillText(card.subtitle, width / 2, y, width * 0.84);
+  }
+  ctx.restore();
+};
+
+// Intro covers the first seconds and fades out, so the cut to camera isn't abrupt
+export const introOpacity = (card: BrandCard, elapsedMs: number) => {
+  if (!card.enabled) return 0;
+  return clamp01((card.durationSec * 1000 - elapsedMs) / BRAND_TRANSITION_MS);
+};
+
+// Outro fades in once the user stops, `elapsedMs` counts from there
+export const outroOpacity = (card: BrandCard, elapsedMs: number) => {
+  if (!card.enabled) return 0;
+  return clamp01(elapsedMs / BRAND_TRANSITION_MS);
+};
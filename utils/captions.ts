@@ -0,0 +1,60 @@
+import { InterviewQuestion, QuestionCue } from '../types';
+import { RecordingClock, toMediaMs } from './recordingClock';
+
+// Turns the interviewer's question history into cues on the recorded timeline.
+// A question stays up until it fades out, the next one replaces it, or the take ends.
+export const buildQuestionCues = (
+  questions: InterviewQuestion[],
+  clock: RecordingClock,
+  recordingEndedAt: number,
+  fadeMs: number
+): QuestionCue[] => {
+  const toSeconds = (t: number) => toMediaMs(clock, t) / 1000;
+  const duration = toSeconds(recordingEndedAt);
+
+  return questions
+    .map((q, i) => {
+      const next = questions[i + 1];
+      let end = fadeMs > 0 ? q.completedAt + fadeMs : recordingEndedAt;
+      if (next) end = Math.min(end, next.startedAt);
+      return {
+        text: q.text,
+        start: toSeconds(q.startedAt),
+        end: Math.min(toSeconds(end), duration),
+      };
+    })
+    .filter(cue => cue.end > cue.start);
+};
+
+const formatTimestamp = (seconds: number, fractionSeparator: string) => {
+  const totalMs = Math.round(seconds * 1000);
+  const ms = totalMs % 1000;
+  const totalSeconds = Math.floor(totalMs / 1000);
+  const s = totalSeconds % 60;
+  const m = Math.floor(totalSeconds / 60) % 60;
+  const h = Math.floor(totalSeconds / 3600);
+  const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${fractionSeparator}${pad(ms, 3)}`;
+};
+
+// Cue text is markup in WebVTT: `&` and `<` start entities and tags, and `-->` anywhere in a
+// payload is invalid. A blank line would end the cue early.
+const escapeVTTText = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n\s*\n/g, '\n');
+
+export const toWebVTT = (cues: QuestionCue[]) => {
+  const body = cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${escapeVTTText(cue.text)}`)
+    .join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+};
+
+export const toSRT = (cues: QuestionCue[]) => {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}`)
+    .join('\n\n') + '\n';
+};
@@ -0,0 +1,105 @@
+// AudioWorklet that turns the mic into 16 kHz Int16 PCM batches off the main thread
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+// One message to the main thread per batch
+export const CAPTURE_BATCH_MS = 100;
+
+const PROCESSOR_NAME = 'musecam-pcm-capture';
+
+export interface CaptureBatch {
+  pcm: Int16Array;
+  rms: number; // Level of the batch, used for barge-in detection
+}
+
+// Inlined so it works without a bundler-specific worker URL
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, batchMs } = options.processorOptions;
+    // Input samples per output sample; the context runs at the device rate
+    this.ratio = sampleRate / targetSampleRate;
+    this.batch = new Int16Array(Math.round(targetSampleRate * batchMs / 1000));
+    this.batchLength = 0;
+    this.energy = 0;
+    // Box-filter decimation state, carried across render quanta
+    this.sum = 0;
+    this.count = 0;
+    this.phase = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      this.sum += channel[i];
+      this.count++;
+      this.phase += 1;
+      if (this.phase >= this.ratio) {
+        this.phase -= this.ratio;
+        this.push(this.sum / this.count);
+        this.sum = 0;
+        this.count = 0;
+      }
+    }
+    return true;
+  }
+
+  push(sample) {
+    // Clamp so loud input saturates instead of wrapping around in Int16
+    const s = Math.max(-1, Math.min(1, sample));
+    this.energy += s * s;
+    this.batch[this.batchLength++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    if (this.batchLength === this.batch.length) this.flush();
+  }
+
+  flush() {
+    const pcm = this.batch.slice(0, this.batchLength);
+    const rms = Math.sqrt(this.energy / this.batchLength);
+    this.port.postMessage({ pcm, rms }, [pcm.buffer]);
+    this.batchLength = 0;
+    this.energy = 0;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+export const createCaptureNode = async (
+  ctx: AudioContext, 
+  onBatch: (batch: CaptureBatch) => void
+): Promise<AudioWorkletNode> => {
+  if (!loadedContexts.has(ctx)) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    try {
+      await ctx.audioWorklet.addModule(url);
+      loadedContexts.add(ctx);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetSampleRate: CAPTURE_SAMPLE_RATE, batchMs: CAPTURE_BATCH_MS },
+  });
+  node.port.onmessage = (e: MessageEvent<CaptureBatch>) => onBatch(e.data);
+  return node;
+};
+
+// Base64 in slices, String.fromCharCode per byte is far too slow for audio
+export const pcmToBase64 = (pcm: Int16Array) => {
+  const bytes = new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+  const SLICE = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += SLICE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + SLICE));
+  }
+  return btoa(binary);
+};
@@ -0,0 +1,46 @@
+import { VideoConfig } from '../types';
+
+// 3-2-1 drawn on the recorder canvas before the recorder starts, so it never ends up in the file
+
+const FONT_FAMILY = 'Quicksand, sans-serif';
+const RING_COLOR = '#fb7185'; // rose-400
+
+// `progress` runs 0..1 through the current second, the ring empties as it goes
+export const drawCountdown = (
+  ctx: CanvasRenderingContext2D,
+  seconds: number,
+  progress: number,
+  config: VideoConfig
+) => {
+  const { width, height } = config;
+  const unit = Math.min(width, height);
+  const radius = unit * 0.16;
+  const cx = width / 2;
+  const cy = height / 2;
+  const t = Math.min(1, Math.max(0, progress));
+
+  ctx.save();
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.35)';
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.beginPath();
+  ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.strokeStyle = RING_COLOR;
+  ctx.lineWidth = unit * 0.02;
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  ctx.arc(cx, cy, radius, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * (1 - t));
+  ctx.stroke();
+
+  // Each number pops in slightly larger and settles
+  const scale = 1 + 0.25 * Math.pow(1 - t, 3);
+  ctx.fillStyle = '#334155'; // slate-700
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = `700 ${radius * 1.1 * scale}px ${FONT_FAMILY}`;
+  ctx.fillText(String(seconds), cx, cy + radius * 0.05);
+  ctx.restore();
+};
@@ -0,0 +1,75 @@
+import { EditDecision, QuestionCue, TimeRange, TranscriptEntry } from '../types';
+
+// Ranges shorter than this are dropped, they'd only produce a flash frame
+const MIN_RANGE_SECONDS = 0.1;
+
+export const createEditDecision = (duration: number): EditDecision => ({ inPoint: 0, outPoint: duration, cuts: [] });
+
+// Merges overlapping cuts and clips them to the in/out points
+const normalizeCuts = (edit: EditDecision): TimeRange[] => {
+  const sorted = edit.cuts
+    .map(c => ({ start: Math.max(c.start, edit.inPoint), end: Math.min(c.end, edit.outPoint) }))
+    .filter(c => c.end > c.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: TimeRange[] = [];
+  for (const cut of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && cut.start <= last.end) {
+      last.end = Math.max(last.end, cut.end);
+    } else {
+      merged.push({ ...cut });
+    }
+  }
+  return merged;
+};
+
+export const getKeptRanges = (edit: EditDecision): TimeRange[] => {
+  const kept: TimeRange[] = [];
+  let cursor = edit.inPoint;
+  for (const cut of normalizeCuts(edit)) {
+    kept.push({ start: cursor, end: cut.start });
+    cursor = cut.end;
+  }
+  kept.push({ start: cursor, end: edit.outPoint });
+  return kept.filter(r => r.end - r.start >= MIN_RANGE_SECONDS);
+};
+
+export const keptDuration = (ranges: TimeRange[]) => ranges.reduce((sum, r) => sum + r.end - r.start, 0);
+
+export const isEdited = (edit: EditDecision, duration: number) =>
+  edit.inPoint > 0 || edit.outPoint < duration || edit.cuts.length > 0;
+
+// Position of source time `t` in the edited output, null if it was cut
+export const toEditedTime = (t: number, ranges: TimeRange[]): number | null => {
+  let offset = 0;
+  for (const range of ranges) {
+    if (t < range.start) return null;
+    if (t <= range.end) return offset + t - range.start;
+    offset += range.end - range.start;
+  }
+  return null;
+};
+
+// Where playback should continue from when it lands in a removed stretch
+export const nextKeptTime = (t: number, ranges: TimeRange[]): number | null => {
+  for (const range of ranges) {
+    if (t < range.start) return range.start;
+    if (t < range.end) return t;
+  }
+  return null;
+};
+
+// Moves timed items onto the edited timeline, dropping those that start in a cut
+const remap = <T extends { start: number; end: number }>(items: T[], ranges: TimeRange[]): T[] => {
+  return items.flatMap(item => {
+    const start = toEditedTime(item.start, ranges);
+    if (start === null) return [];
+    const end = toEditedTime(item.end, ranges) ?? start + Math.min(item.end - item.start, 3);
+    return [{ ...item, start, end: Math.max(start, end) }];
+  });
+};
+
+export const remapQuestionCues = (cues: QuestionCue[], ranges: TimeRange[]) => remap(cues, ranges);
+
+export const remapTranscript = (entries: TranscriptEntry[], ranges: TimeRange[]) => remap(entries, ranges);
@@ -0,0 +1,155 @@
+import { COLOR_LOOKS, ColorLook, EffectSettings } from '../types';
+import { FaceBox } from './faceTracking';
+
+// Per-frame effects on the output canvas. Each stage works on what the previous ones drew,
+// so whatever is on the canvas is exactly what captureStream records.
+
+export interface EffectFrame {
+  ctx: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+  face: FaceBox | null; // In fractions of the output frame, null when nobody was found
+  personMask: PersonMask | null; // From the segmenter, null while it loads or when it can't run
+  scratch: CanvasRenderingContext2D; // Same size as the output, free to overwrite
+}
+
+// Segmentation mask plus the part of it that lines up with the output frame
+export interface PersonMask {
+  image: CanvasImageSource;
+  sx: number;
+  sy: number;
+  sWidth: number;
+  sHeight: number;
+}
+
+export interface FrameEffect {
+  id: string;
+  isEnabled: (settings: EffectSettings) => boolean;
+  render: (frame: EffectFrame, settings: EffectSettings) => void;
+}
+
+export const DEFAULT_EFFECT_SETTINGS: EffectSettings = {
+  look: ColorLook.NATURAL,
+  brightness: 1,
+  contrast: 1,
+  smoothing: 0,
+  vignette: 0,
+  backgroundBlur: false,
+};
+
+// Keep a copy of the current frame to draw back through a filter
+const snapshot = ({ ctx, scratch, width, height }: EffectFrame) => {
+  scratch.globalCompositeOperation = 'copy';
+  scratch.drawImage(ctx.canvas, 0, 0, width, height);
+  scratch.globalCompositeOperation = 'source-over';
+};
+
+// Fallback when the segmenter can't run: the person is approximated from the face, a head
+// ellipse plus a shoulders-and-torso shape below it. Hands, hair and off-centre poses won't match.
+const drawApproximateMask = (ctx: CanvasRenderingContext2D, face: FaceBox | null, width: number, height: number) => {
+  const unit = Math.min(width, height);
+  const fx = (face?.x ?? 0.5) * width;
+  const fy = (face?.y ?? 0.4) * height;
+  const headRx = Math.max((face?.width ?? 0.25) * width * 0.75, unit * 0.12);
+  const headRy = Math.max((face?.height ?? 0.3) * height * 0.8, unit * 0.15);
+
+  ctx.filter = `blur(${Math.round(unit * 0.03)}px)`;
+  ctx.fillStyle = '#000';
+  // One path, so a destination-in composite keeps the union of both shapes
+  ctx.beginPath();
+  ctx.ellipse(fx, fy, headRx, headRy, 0, 0, Math.PI * 2);
+  const shouldersY = fy + headRy + headRx * 2.2;
+  ctx.moveTo(fx + headRx * 2.6, shouldersY);
+  ctx.ellipse(fx, shouldersY, headRx * 2.6, headRx * 2.6, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.filter = 'none';
+};
+
+const backgroundBlur: FrameEffect = {
+  id: 'background-blur',
+  isEnabled: s => s.backgroundBlur,
+  render: (frame) => {
+    const { ctx, scratch, width, height, face, personMask } = frame;
+    // Sharp person into scratch, cut out by the mask
+    snapshot(frame);
+    scratch.globalCompositeOperation = 'destination-in';
+    if (personMask) {
+      // Slight feather so the low-res mask edge doesn't show as steps
+      scratch.filter = `blur(${Math.max(1, Math.round(Math.min(width, height) * 0.004))}px)`;
+      scratch.drawImage(personMask.image, personMask.sx, personMask.sy, personMask.sWidth, personMask.sHeight, 0, 0, width, height);
+      scratch.filter = 'none';
+    } else {
+      drawApproximateMask(scratch, face, width, height);
+    }
+    scratch.globalCompositeOperation = 'source-over';
+
+    // Blur the whole frame in place, then lay the sharp person back on top
+    ctx.save();
+    ctx.filter = `blur(${Math.round(Math.min(width, height) * 0.02)}px)`;
+    ctx.drawImage(ctx.canvas, 0, 0, width, height);
+    ctx.restore();
+    ctx.drawImage(scratch.canvas, 0, 0, width, height);
+  },
+};
+
+// Soft-focus: a blurred copy blended back lightly evens out skin without smearing edges too much
+const smoothing: FrameEffect = {
+  id: 'smoothing',
+  isEnabled: s => s.smoothing > 0,
+  render: (frame, s) => {
+    const { ctx, scratch, width, height } = frame;
+    snapshot(frame);
+    ctx.save();
+    ctx.globalAlpha = s.smoothing * 0.5;
+    ctx.filter = `blur(${Math.max(1, Math.round(Math.min(width, height) * 0.004))}px)`;
+    ctx.globalCompositeOperation = 'lighten';
+    ctx.drawImage(scratch.canvas, 0, 0, width, height);
+    ctx.restore();
+  },
+};
+
+const colorGrade: FrameEffect = {
+  id: 'color',
+  isEnabled: s => s.look !== ColorLook.NATURAL || s.brightness !== 1 || s.contrast !== 1,
+  render: (frame, s) => {
+    const { ctx, scratch, width, height } = frame;
+    const look = COLOR_LOOKS[s.look];
+    const filter = [`brightness(${s.brightness})`, `contrast(${s.contrast})`, look.filter].filter(Boolean).join(' ');
+
+    snapshot(frame);
+    ctx.save();
+    ctx.globalCompositeOperation = 'copy';
+    ctx.filter = filter;
+    ctx.drawImage(scratch.canvas, 0, 0, width, height);
+    ctx.restore();
+
+    if (look.tint) {
+      ctx.fillStyle = look.tint;
+      ctx.fillRect(0, 0, width, height);
+    }
+  },
+};
+
+const vignette: FrameEffect = {
+  id: 'vignette',
+  isEnabled: s => s.vignette > 0,
+  render: ({ ctx, width, height }, s) => {
+    const radius = Math.hypot(width, height) / 2;
+    const gradient = ctx.createRadialGradient(width / 2, height / 2, radius * 0.45, width / 2, height / 2, radius);
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    gradient.addColorStop(1, `rgba(0, 0, 0, ${0.6 * s.vignette})`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  },
+};
+
+// Order matters: the background goes first so grading and vignette cover the whole picture
+export const EFFECT_PIPELINE: FrameEffect[] = [backgroundBlur, smoothing, colorGrade, vignette];
+
+export const hasActiveEffects = (settings: EffectSettings) => EFFECT_PIPELINE.some(e => e.isEnabled(settings));
+
+export const applyEffects = (frame: EffectFrame, settings: EffectSettings) => {
+  for (const effect of EFFECT_PIPELINE) {
+    if (effect.isEnabled(settings)) effect.render(frame, settings);
+  }
+};
@@ -0,0 +1,119 @@
+// On-device face finding for auto-framing. Uses the Shape Detection API where the browser
+// has it, otherwise a coarse skin-tone + motion heuristic. Frames never leave the page.
+
+// Center and size of the face, in fractions of the source frame
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FaceTracker {
+  detect: (video: HTMLVideoElement) => Promise<FaceBox | null>;
+  usesFaceDetector: boolean;
+}
+
+// Not in lib.dom yet
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+interface FaceDetectorLike {
+  detect: (image: CanvasImageSource) => Promise<DetectedFace[]>;
+}
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorLike;
+
+// The heuristic works on a thumbnail, plenty for finding a head
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 48;
+// Below this share of skin-weighted pixels there is probably nobody in frame
+const MIN_COVERAGE = 0.01;
+const MOTION_THRESHOLD = 20; // luma difference that counts as movement
+
+// Classic RGB skin rule (Kovac et al.), good enough across lighting for a rough centroid
+const isSkin = (r: number, g: number, b: number) =>
+  r > 95 && g > 40 && b > 20 &&
+  Math.max(r, g, b) - Math.min(r, g, b) > 15 &&
+  Math.abs(r - g) > 15 && r > g && r > b;
+
+const createHeuristicDetector = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_WIDTH;
+  canvas.height = SAMPLE_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  let previousLuma: Float32Array | null = null;
+
+  return (video: HTMLVideoElement): FaceBox | null => {
+    if (!ctx) return null;
+    ctx.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    const luma = new Float32Array(SAMPLE_WIDTH * SAMPLE_HEIGHT);
+
+    let total = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let sumXX = 0;
+    let sumYY = 0;
+
+    for (let i = 0; i < luma.length; i++) {
+      const r = data[i * 4];
+      const g = data[i * 4 + 1];
+      const b = data[i * 4 + 2];
+      luma[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+      if (!isSkin(r, g, b)) continue;
+
+      // A talking head moves, a beige wall doesn't: moving skin counts more
+      const moving = previousLuma && Math.abs(luma[i] - previousLuma[i]) > MOTION_THRESHOLD;
+      // Faces sit in the upper part of the body, favour higher skin over hands and arms
+      const y = Math.floor(i / SAMPLE_WIDTH) / SAMPLE_HEIGHT;
+      const weight = (moving ? 3 : 1) * (1.5 - y);
+      const x = (i % SAMPLE_WIDTH) / SAMPLE_WIDTH;
+
+      total += weight;
+      sumX += x * weight;
+      sumY += y * weight;
+      sumXX += x * x * weight;
+      sumYY += y * y * weight;
+    }
+    previousLuma = luma;
+
+    if (total < luma.length * MIN_COVERAGE) return null;
+
+    const x = sumX / total;
+    const y = sumY / total;
+    const spreadX = Math.sqrt(Math.max(0, sumXX / total - x * x));
+    const spreadY = Math.sqrt(Math.max(0, sumYY / total - y * y));
+    return { x, y, width: spreadX * 4, height: spreadY * 4 };
+  };
+};
+
+export const createFaceTracker = (): FaceTracker => {
+  const FaceDetector = (window as unknown as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+  const heuristic = createHeuristicDetector();
+
+  if (!FaceDetector) {
+    return { detect: async (video) => heuristic(video), usesFaceDetector: false };
+  }
+
+  const detector = new FaceDetector({ fastMode: true, maxDetectedFaces: 1 });
+  return {
+    usesFaceDetector: true,
+    detect: async (video) => {
+      if (!video.videoWidth) return null;
+      try {
+        const [face] = await detector.detect(video);
+        if (!face) return null;
+        const box = face.boundingBox;
+        return {
+          x: (box.x + box.width / 2) / video.videoWidth,
+          y: (box.y + box.height / 2) / video.videoHeight,
+          width: box.width / video.videoWidth,
+          height: box.height / video.videoHeight,
+        };
+      } catch {
+        // Some platforms expose the API but have no backend, use the heuristic instead
+        return heuristic(video);
+      }
+    },
+  };
+};
@@ -0,0 +1,73 @@
+// Where the crop window sits on the camera frame. Center is in 0..1 of the source,
+// zoom 1 is the largest crop that fits the output ratio.
+
+export interface Framing {
+  centerX: number;
+  centerY: number;
+  zoom: number;
+}
+
+export interface CropRect {
+  sx: number;
+  sy: number;
+  sWidth: number;
+  sHeight: number;
+}
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 4;
+// One press of a zoom button or notch of the wheel
+export const ZOOM_STEP = 1.1;
+// Time constant of the auto-frame pan, slow enough to read as a camera move
+const PAN_SMOOTHING_MS = 400;
+
+export const createFraming = (): Framing => ({ centerX: 0.5, centerY: 0.5, zoom: 1 });
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const clampZoom = (zoom: number) => clamp(zoom, MIN_ZOOM, MAX_ZOOM);
+
+export const computeCrop = (
+  sourceWidth: number, 
+  sourceHeight: number, 
+  outputWidth: number, 
+  outputHeight: number, 
+  framing: Framing
+): CropRect => {
+  const outputRatio = outputWidth / outputHeight;
+
+  // Largest window of the output ratio, then shrink it by the zoom
+  let sWidth = sourceWidth;
+  let sHeight = sourceWidth / outputRatio;
+  if (sHeight > sourceHeight) {
+    sHeight = sourceHeight;
+    sWidth = sourceHeight * outputRatio;
+  }
+  sWidth /= framing.zoom;
+  sHeight /= framing.zoom;
+
+  // Keep the window inside the frame, panning stops at the edges
+  const sx = clamp(framing.centerX * sourceWidth - sWidth / 2, 0, sourceWidth - sWidth);
+  const sy = clamp(framing.centerY * sourceHeight - sHeight / 2, 0, sourceHeight - sHeight);
+  return { sx, sy, sWidth, sHeight };
+};
+
+// Moves a framing by a drag on the output, given in fractions of the output size
+export const panFraming = (framing: Framing, crop: CropRect, sourceWidth: number, sourceHeight: number, dx: number, dy: number): Framing => {
+  // Start from where the clamped window really is, so dragging back from an edge responds at once
+  const centerX = (crop.sx + crop.sWidth / 2) / sourceWidth;
+  const centerY = (crop.sy + crop.sHeight / 2) / sourceHeight;
+  return {
+    ...framing,
+    centerX: clamp(centerX - dx * crop.sWidth / sourceWidth, 0, 1),
+    centerY: clamp(centerY - dy * crop.sHeight / sourceHeight, 0, 1),
+  };
+};
+
+// Eases `current` towards `target` in place, frame-rate independent
+export const stepFraming = (current: Framing, target: Framing, elapsedMs: number) => {
+  const t = 1 - Math.exp(-elapsedMs / PAN_SMOOTHING_MS);
+  current.centerX += (target.centerX - current.centerX) * t;
+  current.centerY += (target.centerY - current.centerY) * t;
+  current.zoom += (target.zoom - current.zoom) * t;
+};
@@ -0,0 +1,76 @@
+import { InterviewerPersona, PERSONA_LANGUAGES, PersonaTone, TakeCarryOver, TakeContext } from '../types';
+
+const TONE_GUIDANCE: Record<PersonaTone, string> = {
+  [PersonaTone.FRIENDLY]: 'Be warm and encouraging.',
+  [PersonaTone.PROFESSIONAL]: 'Be concise, clear and businesslike.',
+  [PersonaTone.PLAYFUL]: 'Be light-hearted and fun, a little cheeky is fine.',
+  [PersonaTone.PROBING]: 'Dig deeper with specific follow-ups, ask for examples and details.',
+};
+
+// `outline` is the speaker's own script in hybrid mode, it replaces the persona's question list
+export const buildSystemInstruction = (persona: InterviewerPersona, outline: string[] = []) => {
+  const language = PERSONA_LANGUAGES.find(l => l.code === persona.language)?.label ?? persona.language;
+
+  const sections = [
+    `You are a ${persona.role}.`,
+    'Your job is to listen to the user recording a video.',
+    'Provide short, inspiring questions or prompts to guide them.',
+    TONE_GUIDANCE[persona.tone],
+    '',
+    'Rules:',
+    `1. Keep your responses VERY SHORT (max ${persona.maxWords} words).`,
+    '2. Do not say "Hello" or "Welcome". Jump straight to a relevant question based on what they said.',
+    '3. If they are silent for a while, ask a fun topic starter.',
+    '4. Your output will be displayed as text on screen, so make it punchy and readable.',
+    '5. Act like a "Title Card" that pops up.',
+    `6. Always respond in ${language}.`,
+  ];
+
+  if (persona.topicBrief.trim()) {
+    sections.push('', `Topic brief: ${persona.topicBrief.trim()}`);
+  }
+
+  if (outline.length > 0) {
+    sections.push(
+      '',
+      'The speaker follows their own outline, which they can see on screen:',
+      ...outline.map((point, i) => `${i + 1}. ${point}`),
+      'Do not read the outline back and do not move them to the next point, they do that themselves.',
+      'Only add a short follow-up prompt when what they actually said invites one: ask for an example, a detail, or a why.',
+      'Stay quiet while they are moving through the outline smoothly.'
+    );
+    return sections.join('\n');
+  }
+
+  const questions = persona.questions.map(q => q.trim()).filter(Boolean);
+  if (questions.length > 0) {
+    sections.push(
+      '',
+      'You must work through these questions in order, one at a time.',
+      'Move to the next one once the speaker has answered, and add a follow-up only when it helps:',
+      ...questions.map((q, i) => `${i + 1}. ${q}`)
+    );
+  }
+
+  return sections.join('\n');
+};
+
+// Tells the AI where the previous take of the shoot left off
+export const buildTakeContext = (context: TakeContext | undefined) => {
+  if (!context || context.mode === TakeCarryOver.FRESH || context.previousQuestions.length === 0) return '';
+
+  const lastQuestion = context.previousQuestions[context.previousQuestions.length - 1];
+  if (context.mode === TakeCarryOver.REPEAT) {
+    return '\n\n' + [
+      `This is take ${context.takeNumber}, a retake of the previous one.`,
+      `Open by asking this question again, in the same words: "${lastQuestion}"`,
+      'Then carry on as usual.',
+    ].join('\n');
+  }
+
+  return '\n\n' + [
+    `This is take ${context.takeNumber}. The previous take already covered these questions:`,
+    ...context.previousQuestions.map(q => `- ${q}`),
+    'Do not ask them again. Move on to new ground that builds on them.',
+  ].join('\n');
+};
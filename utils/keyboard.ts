@@ -0,0 +1,3 @@
+// Keys only count as shortcuts when the user isn't typing somewhere
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
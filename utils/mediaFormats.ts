@@ -0,0 +1,39 @@
+import { RECORDING_FORMATS, RecordingFormat, RecordingFormatId } from '../types';
+
+export interface NegotiatedFormat {
+  format: RecordingFormat | null; // null when nothing matched and the browser picks
+  mimeType: string;
+  isFallback: boolean;
+}
+
+const isSupported = (mimeType: string) =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(mimeType);
+
+export const getFormat = (id: RecordingFormatId): RecordingFormat =>
+  RECORDING_FORMATS.find(f => f.id === id) ?? RECORDING_FORMATS[0];
+
+export const isFormatSupported = (format: RecordingFormat) => format.mimeTypes.some(isSupported);
+
+// Tries the preferred format first, then the rest of the ranked list
+export const negotiateRecordingFormat = (preferred: RecordingFormatId): NegotiatedFormat => {
+  const preferredFormat = getFormat(preferred);
+  const ranked = [preferredFormat, ...RECORDING_FORMATS.filter(f => f !== preferredFormat)];
+
+  for (const format of ranked) {
+    const mimeType = format.mimeTypes.find(isSupported);
+    if (mimeType) {
+      return { format, mimeType, isFallback: format !== preferredFormat };
+    }
+  }
+
+  return { format: null, mimeType: '', isFallback: true };
+};
+
+// Derives the file extension from what the recorder actually produced
+export const extensionForMimeType = (mimeType: string) => {
+  const container = mimeType.split(';')[0].trim().toLowerCase();
+  if (container === 'video/mp4') return 'mp4';
+  if (container === 'video/webm') return 'webm';
+  if (container === 'video/x-matroska') return 'mkv';
+  return 'webm';
+};
@@ -0,0 +1,85 @@
+// AudioWorklet noise suppression for the mic chain: a downward expander. Between words the
+// level drops under the threshold and the room tone, hiss and hum are turned down by up to
+// RANGE_DB; speech opens it again within a couple of milliseconds.
+
+const PROCESSOR_NAME = 'musecam-noise-gate';
+
+const THRESHOLD_DB = -48;
+// Each dB under the threshold becomes this many dB under it
+const RATIO = 3;
+// Never turn down by more than this, a fully closed gate sounds like dropouts
+const RANGE_DB = -24;
+// Stays open this long after the voice drops, so word endings aren't cut
+const HOLD_MS = 120;
+const ATTACK_MS = 2;
+const RELEASE_MS = 150;
+
+// Inlined so it works without a bundler-specific worker URL
+const PROCESSOR_SOURCE = `
+const coefficient = (ms) => Math.exp(-1 / (sampleRate * ms / 1000));
+
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.attack = coefficient(${ATTACK_MS});
+    this.release = coefficient(${RELEASE_MS});
+    this.holdSamples = Math.round(sampleRate * ${HOLD_MS} / 1000);
+    this.envelope = 0;
+    this.hold = 0;
+    this.gainDb = 0;
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0] && inputs[0][0];
+    const output = outputs[0];
+    if (!input) return true;
+
+    for (let i = 0; i < input.length; i++) {
+      const level = Math.abs(input[i]);
+      const envCoef = level > this.envelope ? this.attack : this.release;
+      this.envelope = envCoef * this.envelope + (1 - envCoef) * level;
+
+      const envelopeDb = 20 * Math.log10(this.envelope + 1e-9);
+      let targetDb = 0;
+      if (envelopeDb >= ${THRESHOLD_DB}) {
+        this.hold = this.holdSamples;
+      } else if (this.hold > 0) {
+        this.hold--;
+      } else {
+        targetDb = Math.max(${RANGE_DB}, (envelopeDb - ${THRESHOLD_DB}) * (${RATIO} - 1));
+      }
+
+      // Opens fast, closes slowly
+      const gainCoef = targetDb > this.gainDb ? this.attack : this.release;
+      this.gainDb = gainCoef * this.gainDb + (1 - gainCoef) * targetDb;
+      const gain = Math.pow(10, this.gainDb / 20);
+      for (let c = 0; c < output.length; c++) output[c][i] = input[i] * gain;
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', NoiseGateProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+export const createNoiseGateNode = async (ctx: AudioContext): Promise<AudioWorkletNode> => {
+  if (!loadedContexts.has(ctx)) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    try {
+      await ctx.audioWorklet.addModule(url);
+      loadedContexts.add(ctx);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  return new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    channelCount: 1,
+    channelCountMode: 'explicit',
+  });
+};
@@ -0,0 +1,83 @@
+// Gapless playback of the 16-bit PCM chunks Gemini Live streams back
+
+// Gemini Live speaks at 24 kHz
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+export interface PcmPlayer {
+  stream: MediaStream; // Everything played, for mixing into a recording
+  enqueue: (base64Pcm: string) => void;
+  stop: () => void;    // Drops whatever is queued, e.g. when the user talks over it
+  isPlaying: () => boolean;
+  resume: () => Promise<void>;
+  close: () => void;
+}
+
+const decodePcm16 = (base64: string): Float32Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  const int16 = new Int16Array(bytes.buffer, 0, Math.floor(bytes.byteLength / 2));
+  const float32 = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) {
+    float32[i] = int16[i] / 32768;
+  }
+  return float32;
+};
+
+export const createPcmPlayer = (sampleRate = OUTPUT_SAMPLE_RATE): PcmPlayer => {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new AudioContextClass({ sampleRate });
+  const output = ctx.createGain();
+  const recordTap = ctx.createMediaStreamDestination();
+  output.connect(ctx.destination);
+  output.connect(recordTap);
+
+  const sources = new Set<AudioBufferSourceNode>();
+  let nextStartTime = 0;
+
+  const enqueue = (base64Pcm: string) => {
+    const samples = decodePcm16(base64Pcm);
+    if (samples.length === 0) return;
+
+    const buffer = ctx.createBuffer(1, samples.length, sampleRate);
+    buffer.copyToChannel(samples, 0);
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(output);
+
+    // Schedule back to back; if we fell behind, start right away
+    nextStartTime = Math.max(nextStartTime, ctx.currentTime);
+    source.start(nextStartTime);
+    nextStartTime += buffer.duration;
+
+    sources.add(source);
+    source.onended = () => sources.delete(source);
+  };
+
+  const stop = () => {
+    sources.forEach(source => {
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+    });
+    sources.clear();
+    nextStartTime = 0;
+  };
+
+  return {
+    stream: recordTap.stream,
+    enqueue,
+    stop,
+    isPlaying: () => sources.size > 0,
+    resume: () => ctx.resume(),
+    close: () => {
+      stop();
+      ctx.close();
+    },
+  };
+};
@@ -0,0 +1,28 @@
+import { FrameFormat, QualityPreset, VideoConfig } from '../types';
+
+// Encoders want even dimensions
+const toEven = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+
+// Canvas size for a framing at a preset. When the source is known, never upscale
+// past the center crop of the camera frame, so 4K only happens with a 4K camera.
+// Exact sizes are a delivery spec and are used as-is.
+export const getOutputSize = (
+  frame: FrameFormat, 
+  preset: QualityPreset, 
+  sourceWidth = 0, 
+  sourceHeight = 0
+): VideoConfig => {
+  if (frame.exactSize) return { width: frame.width, height: frame.height };
+
+  let scale = preset.shortSide / Math.min(frame.width, frame.height);
+
+  if (sourceWidth > 0 && sourceHeight > 0) {
+    const cropScale = Math.min(sourceWidth / frame.width, sourceHeight / frame.height);
+    scale = Math.min(scale, cropScale);
+  }
+
+  return { width: toEven(frame.width * scale), height: toEven(frame.height * scale) };
+};
+
+export const estimateBytesPerMinute = (preset: QualityPreset) =>
+  (preset.videoBitsPerSecond + preset.audioBitsPerSecond) / 8 * 60;
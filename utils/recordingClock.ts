@@ -0,0 +1,29 @@
+// Maps wall-clock times onto the recorded timeline, which skips paused stretches
+
+export interface RecordingClock {
+  startedAt: number;
+  pauses: { start: number; end: number | null }[];
+}
+
+export const createRecordingClock = (startedAt: number): RecordingClock => ({ startedAt, pauses: [] });
+
+export const pauseClock = (clock: RecordingClock, at: number) => {
+  const last = clock.pauses[clock.pauses.length - 1];
+  if (last && last.end === null) return;
+  clock.pauses.push({ start: at, end: null });
+};
+
+export const resumeClock = (clock: RecordingClock, at: number) => {
+  const last = clock.pauses[clock.pauses.length - 1];
+  if (last && last.end === null) last.end = at;
+};
+
+// Milliseconds of recorded media at wall-clock time `t`
+export const toMediaMs = (clock: RecordingClock, t: number) => {
+  let paused = 0;
+  for (const pause of clock.pauses) {
+    if (pause.start >= t) break;
+    paused += Math.min(pause.end ?? t, t) - pause.start;
+  }
+  return Math.max(0, t - clock.startedAt - paused);
+};
@@ -0,0 +1,131 @@
+import { SafeAreaConfig, ScreenLayout, ScreenLayoutSettings, VideoConfig } from '../types';
+
+// Where the shared screen and the camera go on the output canvas, for every layout and frame ratio
+
+export interface LayoutRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutRects {
+  screen: LayoutRect | null; // null: camera fills the frame as usual
+  camera: LayoutRect | null; // null: screen only
+  isBubble: boolean;
+}
+
+export const MIN_BUBBLE_SIZE = 0.18;
+export const MAX_BUBBLE_SIZE = 0.6;
+export const MIN_SPLIT_RATIO = 0.3;
+export const MAX_SPLIT_RATIO = 0.75;
+
+// Letterbox behind the screen, slate-900 like the preview player
+const BACKDROP = '#0f172a';
+const BUBBLE_BORDER = 'rgba(255, 255, 255, 0.9)';
+
+export const DEFAULT_SCREEN_LAYOUT: ScreenLayoutSettings = {
+  layout: ScreenLayout.BUBBLE,
+  bubbleCenter: null,
+  bubbleSize: 0.3,
+  splitRatio: 0.6,
+  cameraFirst: false,
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// 9:16, 4:5, 1:1 and the like split top/bottom, wide frames left/right
+export const isStackedFrame = (config: VideoConfig) => config.width / config.height < 1.2;
+
+const getBubbleRect = (settings: ScreenLayoutSettings, config: VideoConfig, safeArea: SafeAreaConfig): LayoutRect => {
+  const { width, height } = config;
+  const size = Math.min(width, height) * settings.bubbleSize;
+  // Default spot stays clear of the platform UI, like the captions do
+  const center = settings.bubbleCenter ?? {
+    x: 1 - safeArea.x - size / 2 / width,
+    y: 1 - safeArea.bottom - size / 2 / height,
+  };
+  const x = clamp(center.x * width - size / 2, 0, width - size);
+  const y = clamp(center.y * height - size / 2, 0, height - size);
+  return { x, y, width: size, height: size };
+};
+
+export const getLayoutRects = (
+  settings: ScreenLayoutSettings,
+  hasScreen: boolean,
+  config: VideoConfig,
+  safeArea: SafeAreaConfig
+): LayoutRects => {
+  const full: LayoutRect = { x: 0, y: 0, width: config.width, height: config.height };
+  if (!hasScreen || settings.layout === ScreenLayout.CAMERA) {
+    return { screen: null, camera: full, isBubble: false };
+  }
+  if (settings.layout === ScreenLayout.SCREEN) {
+    return { screen: full, camera: null, isBubble: false };
+  }
+  if (settings.layout === ScreenLayout.BUBBLE) {
+    return { screen: full, camera: getBubbleRect(settings, config, safeArea), isBubble: true };
+  }
+
+  const ratio = clamp(settings.splitRatio, MIN_SPLIT_RATIO, MAX_SPLIT_RATIO);
+  let first: LayoutRect;
+  let second: LayoutRect;
+  if (isStackedFrame(config)) {
+    const top = Math.round(config.height * (settings.cameraFirst ? 1 - ratio : ratio));
+    first = { x: 0, y: 0, width: config.width, height: top };
+    second = { x: 0, y: top, width: config.width, height: config.height - top };
+  } else {
+    const left = Math.round(config.width * (settings.cameraFirst ? 1 - ratio : ratio));
+    first = { x: 0, y: 0, width: left, height: config.height };
+    second = { x: left, y: 0, width: config.width - left, height: config.height };
+  }
+  return settings.cameraFirst
+    ? { screen: second, camera: first, isBubble: false }
+    : { screen: first, camera: second, isBubble: false };
+};
+
+// Screens are never cropped, text at the edges matters
+export const drawScreen = (ctx: CanvasRenderingContext2D, screen: HTMLVideoElement, rect: LayoutRect) => {
+  ctx.fillStyle = BACKDROP;
+  ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+  const sw = screen.videoWidth;
+  const sh = screen.videoHeight;
+  if (!sw || !sh) return;
+  const scale = Math.min(rect.width / sw, rect.height / sh);
+  const w = sw * scale;
+  const h = sh * scale;
+  ctx.drawImage(screen, rect.x + (rect.width - w) / 2, rect.y + (rect.height - h) / 2, w, h);
+};
+
+// The camera is rendered (with its effects) into its own layer first, then placed here
+export const drawCameraLayer = (ctx: CanvasRenderingContext2D, layer: HTMLCanvasElement, rect: LayoutRect, isBubble: boolean) => {
+  if (!isBubble) {
+    ctx.drawImage(layer, rect.x, rect.y, rect.width, rect.height);
+    return;
+  }
+  const radius = rect.width / 2;
+  const cx = rect.x + radius;
+  const cy = rect.y + radius;
+  ctx.save();
+  ctx.shadowColor = 'rgba(15, 23, 42, 0.3)';
+  ctx.shadowBlur = radius * 0.15;
+  ctx.fillStyle = BUBBLE_BORDER;
+  ctx.beginPath();
+  ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(cx, cy, radius * 0.95, 0, Math.PI * 2);
+  ctx.clip();
+  ctx.drawImage(layer, rect.x, rect.y, rect.width, rect.height);
+  ctx.restore();
+};
+
+export const isInRect = (rect: LayoutRect | null, x: number, y: number) =>
+  !!rect && x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+
+export const clampBubbleSize = (size: number) => clamp(size, MIN_BUBBLE_SIZE, MAX_BUBBLE_SIZE);
+
+export const clampSplitRatio = (ratio: number) => clamp(ratio, MIN_SPLIT_RATIO, MAX_SPLIT_RATIO);
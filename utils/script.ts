@@ -0,0 +1,51 @@
+import { ScriptBlock } from '../types';
+
+// Strips the inline Markdown people paste in (bold, italics, code, links) down to the words
+const stripInline = (text: string) => text
+  .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/(\*\*|__)(.*?)\1/g, '$2')
+  .replace(/\*(.*?)\*/g, '$1') // _italics_ are left alone, underscores show up in names
+  .replace(/`([^`]*)`/g, '$1')
+  .trim();
+
+// Plain text and Markdown both work: headings and list items become their own blocks,
+// consecutive plain lines are joined into paragraphs
+export const parseScript = (text: string): ScriptBlock[] => {
+  const blocks: ScriptBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ kind: 'paragraph', text: stripInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    const bullet = line.match(/^(?:[-*+•]|\d+[.)])\s+(.*)$/);
+
+    if (!line || /^(-{3,}|\*{3,}|_{3,})$/.test(line)) {
+      flushParagraph();
+    } else if (heading) {
+      flushParagraph();
+      blocks.push({ kind: 'heading', text: stripInline(heading[1]) });
+    } else if (bullet) {
+      flushParagraph();
+      blocks.push({ kind: 'bullet', text: stripInline(bullet[1]) });
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+
+  return blocks.filter(b => b.text);
+};
+
+// The points to move through in hybrid mode: list items if the script has any, otherwise paragraphs
+export const getScriptOutline = (blocks: ScriptBlock[]): string[] => {
+  const bullets = blocks.filter(b => b.kind === 'bullet');
+  return (bullets.length > 0 ? bullets : blocks.filter(b => b.kind === 'paragraph')).map(b => b.text);
+};
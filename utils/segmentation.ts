@@ -0,0 +1,73 @@
+// On-device person segmentation for the background blur, with MediaPipe's selfie segmenter.
+// The wasm runtime and the model (~250 KB) are fetched the first time blur is switched on.
+
+// Keep in step with package.json and the importmap in index.html, the JS and wasm must match
+const TASKS_VERSION = '0.10.35';
+const WASM_URL = `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${TASKS_VERSION}/wasm`;
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter/float16/latest/selfie_segmenter.tflite';
+
+export interface PersonSegmenter {
+  // Person mask of the whole camera frame, alpha = confidence. The canvas is reused between calls.
+  segment: (video: HTMLVideoElement, timestampMs: number) => HTMLCanvasElement | null;
+}
+
+const createPersonSegmenter = async (): Promise<PersonSegmenter> => {
+  const { FilesetResolver, ImageSegmenter } = await import('@mediapipe/tasks-vision');
+  const fileset = await FilesetResolver.forVisionTasks(WASM_URL);
+  const segmenter = await ImageSegmenter.createFromOptions(fileset, {
+    baseOptions: { modelAssetPath: MODEL_URL, delegate: 'GPU' },
+    runningMode: 'VIDEO',
+    outputConfidenceMasks: true,
+    outputCategoryMask: false,
+  });
+
+  const maskCtx = document.createElement('canvas').getContext('2d');
+  if (!maskCtx) throw new Error('No 2D canvas for the segmentation mask');
+  let image: ImageData | null = null;
+  let lastTimestamp = 0;
+
+  const segment = (video: HTMLVideoElement, timestampMs: number) => {
+    if (!video.videoWidth) return null;
+    // MediaPipe rejects timestamps that don't move forward
+    const timestamp = Math.max(timestampMs, lastTimestamp + 1);
+    lastTimestamp = timestamp;
+
+    const result = segmenter.segmentForVideo(video, timestamp);
+    const mask = result.confidenceMasks?.[0];
+    if (!mask) return null;
+    try {
+      const { width, height } = mask;
+      if (!image || image.width !== width || image.height !== height) {
+        maskCtx.canvas.width = width;
+        maskCtx.canvas.height = height;
+        image = maskCtx.createImageData(width, height);
+      }
+      const confidence = mask.getAsFloat32Array();
+      const pixels = image.data;
+      for (let i = 0; i < confidence.length; i++) {
+        pixels[i * 4 + 3] = confidence[i] * 255;
+      }
+      maskCtx.putImageData(image, 0, 0);
+      return maskCtx.canvas;
+    } finally {
+      // Without a callback the masks are ours to free
+      result.close();
+    }
+  };
+
+  return { segment };
+};
+
+let loading: Promise<PersonSegmenter | null> | null = null;
+
+// Shared by the recorder and the effects panel. Resolves to null when it can't run here
+// (offline, no WebGL/wasm), the blur then falls back to an approximate face-based mask.
+export const loadPersonSegmenter = (): Promise<PersonSegmenter | null> => {
+  if (!loading) {
+    loading = createPersonSegmenter().catch(err => {
+      console.error("Person segmentation is unavailable:", err);
+      return null;
+    });
+  }
+  return loading;
+};
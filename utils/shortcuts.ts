@@ -0,0 +1,46 @@
+import { ShortcutAction, ShortcutSettings } from '../types';
+import { isTypingTarget } from './keyboard';
+
+// Taken by the teleprompter (Space, ↑ ↓) and the hybrid script cue (← →) while they're on screen
+export const RESERVED_KEYS = ['Space', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'];
+
+const MODIFIER_CODES = ['ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight'];
+
+// "Shift+KeyR", layout independent so bindings survive switching keyboard languages
+export const toShortcut = (e: Pick<KeyboardEvent, 'code' | 'ctrlKey' | 'altKey' | 'metaKey' | 'shiftKey'>): string | null => {
+  if (MODIFIER_CODES.includes(e.code)) return null;
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.metaKey) parts.push('Meta');
+  if (e.shiftKey) parts.push('Shift');
+  parts.push(e.code);
+  return parts.join('+');
+};
+
+// "Shift+KeyR" → "Shift+R"
+export const formatShortcut = (shortcut: string) =>
+  shortcut
+    .split('+')
+    .map(part => part.replace(/^Key/, '').replace(/^Digit/, '').replace(/^Escape$/, 'Esc'))
+    .join('+');
+
+export const findShortcutAction = (settings: ShortcutSettings, shortcut: string): ShortcutAction | null => {
+  const entry = Object.entries(settings.bindings).find(([, key]) => key === shortcut);
+  return entry ? entry[0] as ShortcutAction : null;
+};
+
+// Why a key can't be used for `action`, or null if it can
+export const validateShortcut = (settings: ShortcutSettings, action: ShortcutAction, shortcut: string): string | null => {
+  if (RESERVED_KEYS.includes(shortcut)) return 'Used by the teleprompter and script cues.';
+  const taken = findShortcutAction(settings, shortcut);
+  if (taken && taken !== action) return 'Already used by another shortcut.';
+  return null;
+};
+
+// Global shortcuts never fire while typing, and ignore held-down repeats
+export const matchShortcutEvent = (settings: ShortcutSettings, e: KeyboardEvent): ShortcutAction | null => {
+  if (e.repeat || isTypingTarget(e.target)) return null;
+  const shortcut = toShortcut(e);
+  return shortcut ? findShortcutAction(settings, shortcut) : null;
+};
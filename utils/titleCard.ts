@@ -0,0 +1,122 @@
+import { SafeAreaConfig, VideoConfig } from '../types';
+
+// Matches the `duration-700` transition of the DOM question bubble
+export const TITLE_CARD_FADE_MS = 700;
+
+const MAX_LINES = 4;
+const FONT_FAMILY = 'Quicksand, sans-serif';
+
+// Macaron palette, same as the overlay bubble
+const CARD_FILL = 'rgba(255, 255, 255, 0.9)';
+const TEXT_COLOR = '#334155'; // slate-700
+const DOT_COLORS = ['#fda4af', '#7dd3fc', '#5eead4']; // rose-300, sky-300, teal-300
+
+export interface TitleCardState {
+  text: string;
+  progress: number; // 0 = hidden, 1 = fully shown
+}
+
+// Moves the card towards shown/hidden. Keeps the last text while fading out.
+export const stepTitleCard = (state: TitleCardState, question: string, elapsedMs: number) => {
+  const step = elapsedMs / TITLE_CARD_FADE_MS;
+  if (question) {
+    state.text = question;
+    state.progress = Math.min(1, state.progress + step);
+  } else {
+    state.progress = Math.max(0, state.progress - step);
+  }
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width <= maxWidth || !line) {
+      line = candidate;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+export const drawTitleCard = (
+  ctx: CanvasRenderingContext2D,
+  state: TitleCardState,
+  config: VideoConfig,
+  safeArea: SafeAreaConfig
+) => {
+  if (state.progress <= 0 || !state.text) return;
+
+  const { width, height } = config;
+  const unit = Math.min(width, height);
+  const maxCardWidth = width * (1 - safeArea.x * 2);
+  const padding = unit * 0.05;
+
+  // Shrink the font until the question fits in MAX_LINES
+  let fontSize = unit * 0.065;
+  let lines: string[] = [];
+  do {
+    ctx.font = `700 ${fontSize}px ${FONT_FAMILY}`;
+    lines = wrapText(ctx, state.text, maxCardWidth - padding * 2);
+    if (lines.length <= MAX_LINES) break;
+    fontSize *= 0.9;
+  } while (fontSize > unit * 0.03);
+
+  const lineHeight = fontSize * 1.2;
+  const dotRadius = unit * 0.008;
+  const textWidth = Math.max(...lines.map(l => ctx.measureText(l).width));
+  const cardWidth = Math.min(maxCardWidth, textWidth + padding * 2);
+  const cardHeight = lines.length * lineHeight + padding * 2 + dotRadius * 4;
+
+  // Same motion as the overlay: slide up, scale from 95% and fade in
+  const eased = easeOutCubic(state.progress);
+  const offsetY = (1 - eased) * unit * 0.06;
+  const scale = 0.95 + 0.05 * eased;
+
+  const cx = width / 2;
+  const bottom = height * (1 - safeArea.bottom);
+
+  ctx.save();
+  ctx.globalAlpha = eased;
+  ctx.translate(cx, bottom + offsetY);
+  ctx.scale(scale, scale);
+
+  // Card, anchored at its bottom center
+  ctx.shadowColor = 'rgba(15, 23, 42, 0.18)';
+  ctx.shadowBlur = unit * 0.04;
+  ctx.shadowOffsetY = unit * 0.01;
+  ctx.fillStyle = CARD_FILL;
+  ctx.beginPath();
+  ctx.roundRect(-cardWidth / 2, -cardHeight, cardWidth, cardHeight, unit * 0.035);
+  ctx.fill();
+  ctx.shadowColor = 'transparent';
+
+  // Question text
+  ctx.fillStyle = TEXT_COLOR;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => {
+    ctx.fillText(line, 0, -cardHeight + padding + lineHeight * (i + 0.5));
+  });
+
+  // Bouncing dots
+  const now = performance.now();
+  const dotsY = -padding / 2 - dotRadius;
+  DOT_COLORS.forEach((color, i) => {
+    const bounce = Math.abs(Math.sin(now / 300 - i * 0.6)) * dotRadius * 1.5;
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc((i - 1) * dotRadius * 3, dotsY - bounce, dotRadius, 0, Math.PI * 2);
+    ctx.fill();
+  });
+
+  ctx.restore();
+};
@@ -0,0 +1,53 @@
+import { InterviewQuestion, SpeakerTurn, TranscriptEntry } from '../types';
+import { RecordingClock, toMediaMs } from './recordingClock';
+import { formatDuration } from './format';
+
+const SPEAKER_LABELS = {
+  speaker: 'Speaker',
+  interviewer: 'Interviewer',
+};
+
+// Interleaves both sides of the conversation on the recording timeline
+export const buildTranscript = (
+  questions: InterviewQuestion[],
+  speakerTurns: SpeakerTurn[],
+  clock: RecordingClock
+): TranscriptEntry[] => {
+  const toSeconds = (t: number) => toMediaMs(clock, t) / 1000;
+
+  const entries: TranscriptEntry[] = [
+    ...questions.map(q => ({ 
+      speaker: 'interviewer' as const, 
+      text: q.text, 
+      start: toSeconds(q.startedAt), 
+      end: toSeconds(q.completedAt) 
+    })),
+    ...speakerTurns
+      .filter(t => t.text.trim())
+      .map(t => ({ 
+        speaker: 'speaker' as const, 
+        text: t.text.trim(), 
+        start: toSeconds(t.startedAt), 
+        end: toSeconds(t.endedAt) 
+      })),
+  ];
+
+  return entries.sort((a, b) => a.start - b.start);
+};
+
+const timestamp = (seconds: number) => formatDuration(seconds * 1000);
+
+export const transcriptToMarkdown = (entries: TranscriptEntry[], title: string) => {
+  const lines = entries.map(e => `**[${timestamp(e.start)}] ${SPEAKER_LABELS[e.speaker]}:** ${e.text}`);
+  return `# ${title}\n\n${lines.join('\n\n')}\n`;
+};
+
+export const transcriptToPlainText = (entries: TranscriptEntry[]) => {
+  return entries.map(e => `[${timestamp(e.start)}] ${SPEAKER_LABELS[e.speaker]}: ${e.text}`).join('\n') + '\n';
+};
+
+export const transcriptToJSON = (entries: TranscriptEntry[], title: string) => {
+  return JSON.stringify({ title, entries }, null, 2);
+};
+
+export const speakerLabel = (entry: TranscriptEntry) => SPEAKER_LABELS[entry.speaker];
@@ -0,0 +1,44 @@
+import { SHORTCUT_ACTIONS, ShortcutAction } from '../types';
+
+// Spoken commands, picked out of the speaker's live transcription: "MuseCam, next question".
+// The wake word keeps normal speech ("...and then we stop the server") from triggering anything.
+
+// Ways the transcription tends to spell the wake word
+const WAKE_WORDS = ['musecam', 'muse cam', 'muse-cam', 'music cam', 'news cam'];
+// Transcription arrives in fragments, keep enough to hold a whole command
+const BUFFER_CHARS = 80;
+
+export interface VoiceCommandMatcher {
+  feed: (text: string) => ShortcutAction | null;
+  reset: () => void;
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z\s-]/g, ' ').replace(/\s+/g, ' ');
+
+// Longest phrases first, so "next question" wins over "next"
+const PHRASES = (Object.entries(SHORTCUT_ACTIONS) as [ShortcutAction, { phrases: string[] }][])
+  .flatMap(([action, config]) => config.phrases.map(phrase => ({ action, phrase })))
+  .sort((a, b) => b.phrase.length - a.phrase.length);
+
+export const createVoiceCommandMatcher = (): VoiceCommandMatcher => {
+  let buffer = '';
+
+  const feed = (text: string): ShortcutAction | null => {
+    buffer = normalize(buffer + text).slice(-BUFFER_CHARS);
+
+    for (const wake of WAKE_WORDS) {
+      const at = buffer.lastIndexOf(wake);
+      if (at === -1) continue;
+      const command = buffer.slice(at + wake.length).trim();
+      const match = PHRASES.find(({ phrase }) => command === phrase || command.startsWith(`${phrase} `));
+      if (match) {
+        // Each command fires once, the next fragment starts clean
+        buffer = '';
+        return match.action;
+      }
+    }
+    return null;
+  };
+
+  return { feed, reset: () => { buffer = ''; } };
+};